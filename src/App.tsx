@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { FloatingShortcutsButton } from './packages/react-keyboard-shortcuts/src';
+import { FloatingShortcutsButton, CommandPalette, ShortcutCheatSheet } from './packages/react-keyboard-shortcuts/src';
 
 // Demo Components
 import FormDemo from './demos/FormDemo';
@@ -29,7 +29,7 @@ export default function App() {
     { id: 'form', label: 'Form Shortcuts', desc: 'Ctrl+S to save, Escape to cancel, Enter to submit' },
     { id: 'list', label: 'List Navigation', desc: 'Arrow keys to navigate, Delete to remove, Ctrl+A to select all' },
     { id: 'editor', label: 'Text Editor', desc: 'Ctrl+Z/Y for undo/redo, Ctrl+B/I for bold/italic' },
-    { id: 'modal', label: 'Modal Dialog', desc: 'Escape to close modal, Enter to confirm' },
+    { id: 'modal', label: 'Modal Dialog', desc: 'O to open a modal, Escape to close it, Enter to confirm' },
   ];
 
   const currentDemo = demos.find(d => d.id === activeDemo);
@@ -72,6 +72,8 @@ export default function App() {
 
       {/* Floating Button - Shows all registered shortcuts */}
       <FloatingShortcutsButton position="bottom-right" theme="dark" />
+      <CommandPalette theme="dark" />
+      <ShortcutCheatSheet theme="dark" />
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { useKeyboardShortcuts } from '../packages/react-keyboard-shortcuts/src';
+import { useKeyboardShortcuts, useContextKey } from '../packages/react-keyboard-shortcuts/src';
 
 export default function EditorDemo() {
   const [text, setText] = useState('Type something here and try the shortcuts!');
@@ -8,10 +8,17 @@ export default function EditorDemo() {
   const [formatting, setFormatting] = useState({ bold: false, italic: false, underline: false });
   const [logs, setLogs] = useState<string[]>([]);
 
-  const { register, deregister, disable, enable } = useKeyboardShortcuts('editor-demo');
+  const { register, deregister } = useKeyboardShortcuts('editor-demo', {
+    label: 'Editor',
+    icon: '✏️',
+    when: 'editorShortcutsEnabled',
+  });
   const [shortcutsEnabled, setShortcutsEnabled] = useState(true);
   const [saveRemoved, setSaveRemoved] = useState(false);
 
+  // Every editor shortcut checks this context key when a key is pressed
+  useContextKey('editorShortcutsEnabled', shortcutsEnabled);
+
   const addLog = (msg: string) => {
     setLogs(prev => [...prev.slice(-5), `${new Date().toLocaleTimeString()}: ${msg}`]);
   };
@@ -100,14 +107,7 @@ export default function EditorDemo() {
   };
 
   const toggleShortcuts = () => {
-    const keys = ['Ctrl+Z', 'Ctrl+Y', 'Ctrl+B', 'Ctrl+I', 'Ctrl+U', 'Ctrl+S'];
-    if (shortcutsEnabled) {
-      disable(keys);
-      addLog('All shortcuts DISABLED');
-    } else {
-      enable(keys);
-      addLog('All shortcuts ENABLED');
-    }
+    addLog(shortcutsEnabled ? 'All shortcuts DISABLED' : 'All shortcuts ENABLED');
     setShortcutsEnabled(!shortcutsEnabled);
   };
 
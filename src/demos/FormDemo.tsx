@@ -6,7 +6,7 @@ export default function FormDemo() {
   const [logs, setLogs] = useState<string[]>([]);
   const [saveCount, setSaveCount] = useState(0);
 
-  const { register } = useKeyboardShortcuts('form-demo');
+  const { register } = useKeyboardShortcuts('form-demo', { label: 'Form', icon: '📝' });
 
   const addLog = (msg: string) => {
     setLogs(prev => [...prev.slice(-5), `${new Date().toLocaleTimeString()}: ${msg}`]);
@@ -29,7 +29,8 @@ export default function FormDemo() {
           setFormData({ name: '', email: '', message: '' });
           addLog('Form cleared');
         },
-        options: { description: 'Clear form' }
+        // Escape should cancel even while a field has focus
+        options: { description: 'Clear form', allowIn: 'always' }
       },
       {
         keys: 'Ctrl+Enter',
@@ -14,7 +14,7 @@ export default function ListDemo() {
   const [focusIndex, setFocusIndex] = useState(0);
   const [logs, setLogs] = useState<string[]>([]);
 
-  const { register } = useKeyboardShortcuts('list-demo');
+  const { register } = useKeyboardShortcuts('list-demo', { label: 'List', icon: '📋' });
 
   const addLog = (msg: string) => {
     setLogs(prev => [...prev.slice(-5), `${new Date().toLocaleTimeString()}: ${msg}`]);
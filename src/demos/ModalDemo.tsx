@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useState } from 'react';
-import { useKeyboardShortcuts } from '../packages/react-keyboard-shortcuts/src';
+import { useKeyboardShortcuts, useShortcutScope } from '../packages/react-keyboard-shortcuts/src';
 
 export default function ModalDemo() {
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -7,7 +7,7 @@ export default function ModalDemo() {
   const [logs, setLogs] = useState<string[]>([]);
   const [promptValue, setPromptValue] = useState('');
 
-  const { register, clear } = useKeyboardShortcuts('modal-demo');
+  const { register, clear } = useKeyboardShortcuts('modal-demo', { label: 'Modal', icon: '🔲' });
 
   const addLog = (msg: string) => {
     setLogs(prev => [...prev.slice(-5), `${new Date().toLocaleTimeString()}: ${msg}`]);
@@ -22,38 +22,43 @@ export default function ModalDemo() {
     setIsModalOpen(false);
   }, [modalType, promptValue]);
 
-  // Register shortcuts only when modal is open
-  useEffect(() => {
-    if (isModalOpen) {
-      register([
-        {
-          keys: 'Escape',
-          callback: () => {
-            setIsModalOpen(false);
-            addLog('Modal closed (Escape)');
-          },
-          options: { description: 'Close modal' }
-        },
-        {
-          keys: 'Enter',
-          callback: (e) => {
-            e.preventDefault();
-            handleConfirm();
-          },
-          options: { description: 'Confirm action' }
-        },
-      ]);
-    } else {
-      clear(); // Remove shortcuts when modal is closed
-    }
-  }, [isModalOpen, register, clear, handleConfirm]);
-
-  const openModal = (type: 'confirm' | 'alert' | 'prompt') => {
+  const openModal = useCallback((type: 'confirm' | 'alert' | 'prompt') => {
     setModalType(type);
     setIsModalOpen(true);
     setPromptValue('');
     addLog(`Opened ${type} modal`);
-  };
+  }, []);
+
+  // Modal shortcuts live in the 'modal-dialog' scope, so they can stay registered while closed
+  useEffect(() => {
+    register([
+      {
+        keys: 'o',
+        callback: () => openModal('confirm'),
+        options: { description: 'Open confirm modal' }
+      },
+      {
+        keys: 'Escape',
+        callback: () => {
+          setIsModalOpen(false);
+          addLog('Modal closed (Escape)');
+        },
+        options: { description: 'Close modal', scope: 'modal-dialog' }
+      },
+      {
+        keys: 'Enter',
+        callback: (e) => {
+          e.preventDefault();
+          handleConfirm();
+        },
+        options: { description: 'Confirm action', scope: 'modal-dialog' }
+      },
+    ]);
+    return () => clear();
+  }, [register, clear, openModal, handleConfirm]);
+
+  // The open modal is an exclusive layer: page shortcuts are shadowed until it closes
+  useShortcutScope('modal-dialog', { active: isModalOpen });
 
   const handleCancel = () => {
     addLog('Modal cancelled');
@@ -65,8 +70,8 @@ export default function ModalDemo() {
       <div style={styles.mainSection}>
         <h3 style={styles.heading}>Modal Dialog Demo</h3>
         <p style={styles.desc}>
-          Shortcuts are registered only when the modal is open.
-          This shows how to conditionally register shortcuts.
+          The modal pushes an exclusive shortcut scope while open.
+          Press O to open a modal; O is shadowed until the modal closes.
         </p>
 
         <div style={styles.buttonGroup}>
@@ -84,7 +89,7 @@ export default function ModalDemo() {
         <div style={styles.status}>
           Modal Status: <strong>{isModalOpen ? 'OPEN' : 'CLOSED'}</strong>
           <br />
-          <small>Shortcuts active: {isModalOpen ? 'Yes (Escape, Enter)' : 'No'}</small>
+          <small>Shortcuts active: {isModalOpen ? 'Escape, Enter' : 'O'}</small>
         </div>
       </div>
 
@@ -92,7 +97,7 @@ export default function ModalDemo() {
         <h4>Activity Log</h4>
         <div style={styles.logBox}>
           {logs.length === 0 ? (
-            <em style={{ color: '#999' }}>Open a modal and try Escape or Enter...</em>
+            <em style={{ color: '#999' }}>Press O to open a modal, then try Escape or Enter...</em>
           ) : (
             logs.map((log, i) => <div key={i} style={styles.logEntry}>{log}</div>)
           )}
@@ -100,19 +105,19 @@ export default function ModalDemo() {
       </div>
 
       <div style={styles.codeSection}>
-        <h4>Code Example - Conditional Registration</h4>
-        <pre style={styles.code}>{`const { register, clear } = useKeyboardShortcuts('modal');
+        <h4>Code Example - Exclusive Scope</h4>
+        <pre style={styles.code}>{`const { register } = useKeyboardShortcuts('modal');
 
 useEffect(() => {
-  if (isModalOpen) {
-    register([
-      { keys: 'Escape', callback: closeModal },
-      { keys: 'Enter', callback: confirm },
-    ]);
-  } else {
-    clear(); // Remove shortcuts when closed
-  }
-}, [isModalOpen]);`}</pre>
+  register([
+    { keys: 'o', callback: openModal },
+    { keys: 'Escape', callback: closeModal, options: { scope: 'modal' } },
+    { keys: 'Enter', callback: confirm, options: { scope: 'modal' } },
+  ]);
+}, []);
+
+// While open, only 'modal' shortcuts fire; page shortcuts come back on close
+useShortcutScope('modal', { active: isModalOpen });`}</pre>
       </div>
 
       {/* Modal Overlay */}
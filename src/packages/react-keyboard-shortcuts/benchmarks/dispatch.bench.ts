@@ -0,0 +1,17 @@
+// Runs the benchmark under jest's jsdom: `npm run bench` from the repository root
+import { runDispatchBenchmark } from './dispatch';
+
+// Allowed growth in per-press cost from the smallest to the largest size (200x the shortcuts).
+// Loose, so timing noise doesn't fail it; a linear scan would grow far past it.
+const MAX_DISPATCH_GROWTH = 5;
+
+test('registration and dispatch cost by number of shortcuts', async () => {
+  const results = await runDispatchBenchmark();
+  console.table(results);
+  expect(results).toHaveLength(4);
+
+  const smallest = results[0];
+  const largest = results[results.length - 1];
+  expect(largest.hitMicroseconds / smallest.hitMicroseconds).toBeLessThan(MAX_DISPATCH_GROWTH);
+  expect(largest.missMicroseconds / smallest.missMicroseconds).toBeLessThan(MAX_DISPATCH_GROWTH);
+});
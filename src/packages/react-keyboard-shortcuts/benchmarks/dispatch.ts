@@ -0,0 +1,97 @@
+// Registration and keydown dispatch benchmark: cost as the number of registered shortcuts grows.
+// Needs a DOM. Run it under jsdom with `npm run bench` from the repository root, or in a
+// browser from the demo app (src/App.tsx):
+//
+//   import { runDispatchBenchmark } from './packages/react-keyboard-shortcuts/benchmarks/dispatch';
+//   runDispatchBenchmark().then(console.table);
+//
+// With the stroke index, the hit and miss columns should stay roughly flat across sizes, and
+// registration should grow linearly.
+import { KeyboardShortcutManager } from '../src';
+
+export interface DispatchBenchmarkResult {
+  registrations: number;
+  // Milliseconds to register that many list rows, each binding Enter to its own element
+  registerMilliseconds: number;
+  // Average microseconds per keydown for a bound key and for an unbound one
+  hitMicroseconds: number;
+  missMicroseconds: number;
+}
+
+export interface DispatchBenchmarkOptions {
+  sizes?: number[];
+  // Key presses timed per size
+  presses?: number;
+}
+
+// Filler bindings, none of which is the measured Ctrl+Shift+K or the unbound Ctrl+Shift+J
+const FILLER_KEYS = 'abcdefghilmnopqrstuvwxyz0123456789'.split('');
+const FILLER_MODIFIERS = ['', 'Alt+', 'Shift+', 'Alt+Shift+', 'Ctrl+', 'Ctrl+Alt+'];
+
+// Register `size` shortcuts across list-row components (ten per row), like a large data grid
+const fillManager = (manager: KeyboardShortcutManager, size: number): void => {
+  for (let row = 0; row * 10 < size; row++) {
+    const count = Math.min(10, size - row * 10);
+    manager.register(`row-${row}`, Array.from({ length: count }, (_, i) => {
+      const index = row * 10 + i;
+      const modifier = FILLER_MODIFIERS[index % FILLER_MODIFIERS.length];
+      const key = FILLER_KEYS[Math.floor(index / FILLER_MODIFIERS.length) % FILLER_KEYS.length];
+      return { keys: `${modifier}${key}`, callback: () => undefined };
+    }));
+  }
+};
+
+// Time registering `size` list rows that each bind Enter to their own element (one register call
+// per row), including the aria-keyshortcuts pass that runs in a microtask afterwards
+const timeRegistration = async (size: number): Promise<number> => {
+  const manager = new KeyboardShortcutManager();
+  const rows = Array.from({ length: size }, () => document.createElement('li'));
+
+  const start = performance.now();
+  rows.forEach((row, index) => {
+    manager.register(`list-row-${index}`, [{ keys: 'Enter', callback: () => undefined, options: { target: row } }]);
+  });
+  await Promise.resolve();
+  const elapsed = performance.now() - start;
+
+  manager.destroy();
+  return elapsed;
+};
+
+// Average time of one synthetic keydown on the window
+const timeKeyDown = (init: KeyboardEventInit, presses: number): number => {
+  const event = () => new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+
+  // Warm up before timing
+  for (let i = 0; i < 50; i++) window.dispatchEvent(event());
+
+  const start = performance.now();
+  for (let i = 0; i < presses; i++) window.dispatchEvent(event());
+  return ((performance.now() - start) * 1000) / presses;
+};
+
+// Time registration, and a bound and an unbound key press, on managers of increasing size
+export const runDispatchBenchmark = async ({
+  sizes = [10, 100, 1000, 2000],
+  presses = 2000,
+}: DispatchBenchmarkOptions = {}): Promise<DispatchBenchmarkResult[]> => {
+  const results: DispatchBenchmarkResult[] = [];
+  for (const size of sizes) {
+    const registerMilliseconds = await timeRegistration(size);
+
+    const manager = new KeyboardShortcutManager({ ariaKeyShortcuts: false });
+    fillManager(manager, size);
+    manager.register('measured', [{ keys: 'Ctrl+Shift+K', callback: () => undefined }]);
+
+    const result: DispatchBenchmarkResult = {
+      registrations: size,
+      registerMilliseconds,
+      hitMicroseconds: timeKeyDown({ key: 'K', code: 'KeyK', ctrlKey: true, shiftKey: true }, presses),
+      missMicroseconds: timeKeyDown({ key: 'J', code: 'KeyJ', ctrlKey: true, shiftKey: true }, presses),
+    };
+
+    manager.destroy();
+    results.push(result);
+  }
+  return results;
+};
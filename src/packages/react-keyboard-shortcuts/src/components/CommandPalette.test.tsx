@@ -0,0 +1,94 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { KeyboardShortcutManager } from '../core';
+import { CommandPalette, COMMAND_PALETTE_SCOPE } from './CommandPalette';
+import { ShortcutProvider } from './ShortcutProvider';
+
+const keyDown = (init: KeyboardEventInit): void => {
+  act(() => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+  });
+};
+
+const openPalette = () => keyDown({ key: 'P', ctrlKey: true, shiftKey: true });
+
+let manager: KeyboardShortcutManager;
+let save: jest.Mock;
+let format: jest.Mock;
+
+beforeEach(() => {
+  manager = new KeyboardShortcutManager({ detectPlatform: () => 'other' });
+  save = jest.fn();
+  format = jest.fn();
+  manager.register('editor', [
+    { keys: 'Ctrl+S', callback: save, options: { description: 'Save file' } },
+    { keys: 'Ctrl+Shift+F', callback: format, options: { description: 'Format document', when: 'editorFocused' } },
+  ]);
+});
+
+afterEach(() => {
+  manager.destroy();
+});
+
+const renderPalette = () => render(
+  <ShortcutProvider manager={manager}>
+    <CommandPalette />
+  </ShortcutProvider>
+);
+
+test('opens with its shortcut and pushes an exclusive scope', () => {
+  renderPalette();
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+  openPalette();
+  expect(screen.getByRole('dialog', { name: 'Command palette' })).toBeInTheDocument();
+  expect(screen.getByRole('combobox')).toHaveFocus();
+  expect(manager.getScopeStack().map(scope => scope.id)).toEqual([COMMAND_PALETTE_SCOPE]);
+
+  // Page shortcuts are shadowed while it is open
+  keyDown({ key: 's', ctrlKey: true });
+  expect(save).not.toHaveBeenCalled();
+});
+
+test('lists only shortcuts that can run', () => {
+  renderPalette();
+  openPalette();
+  expect(screen.getByRole('option', { name: /Save file/ })).toBeInTheDocument();
+  expect(screen.queryByRole('option', { name: /Format document/ })).not.toBeInTheDocument();
+});
+
+test('filters items and runs the selected one', () => {
+  renderPalette();
+  openPalette();
+  fireEvent.change(screen.getByRole('combobox'), { target: { value: 'save' } });
+  expect(screen.getAllByRole('option')).toHaveLength(1);
+
+  fireEvent.keyDown(screen.getByRole('combobox'), { key: 'Enter' });
+  expect(save).toHaveBeenCalledTimes(1);
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  expect(manager.getScopeStack()).toHaveLength(0);
+});
+
+test('closes with Escape or its shortcut and restores page shortcuts', () => {
+  renderPalette();
+  openPalette();
+  fireEvent.keyDown(screen.getByRole('combobox'), { key: 'Escape' });
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+  openPalette();
+  openPalette();
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+  keyDown({ key: 's', ctrlKey: true });
+  expect(save).toHaveBeenCalledTimes(1);
+});
+
+test('shows recently used items first', () => {
+  renderPalette();
+  openPalette();
+  fireEvent.click(screen.getByRole('option', { name: /Save file/ }));
+
+  openPalette();
+  const recent = screen.getByRole('group', { name: 'Recently used' });
+  expect(recent).toHaveTextContent('Save file');
+});
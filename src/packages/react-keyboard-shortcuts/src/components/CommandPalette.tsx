@@ -0,0 +1,403 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  KeyboardShortcutManager,
+  keyCombinationToString,
+  toKeySequence,
+} from '../core';
+import { useKeyboardShortcuts, useShortcutScope, useShortcutManager } from '../hooks';
+import { KeyBinding, RegisteredShortcut } from '../types';
+
+// Scope pushed while the palette is open
+export const COMMAND_PALETTE_SCOPE = 'command-palette';
+
+const COMPONENT_ID = 'command-palette';
+
+export interface CommandPaletteProps {
+  // Shortcut that opens the palette (and closes it while open)
+  shortcut?: string;
+  theme?: 'light' | 'dark';
+  placeholder?: string;
+  // Max entries in the "Recently used" section
+  maxRecent?: number;
+  filterComponents?: string[];
+}
+
+interface PaletteItem {
+  // Stable across remounts: command ID, or component ID + default key string
+  key: string;
+  label: string;
+  detail: string;
+  bindings: KeyBinding[];
+  run: () => void;
+}
+
+const styles = {
+  backdrop: (theme: string): React.CSSProperties => ({
+    position: 'fixed',
+    inset: 0,
+    zIndex: 10000,
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+    paddingTop: '15vh',
+    backgroundColor: theme === 'dark' ? 'rgba(0, 0, 0, 0.6)' : 'rgba(0, 0, 0, 0.3)',
+  }),
+  dialog: (theme: string): React.CSSProperties => ({
+    width: '560px',
+    maxWidth: 'calc(100vw - 32px)',
+    maxHeight: '60vh',
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+    backgroundColor: theme === 'dark' ? '#1a1a2e' : '#ffffff',
+    borderRadius: '12px',
+    boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    border: `1px solid ${theme === 'dark' ? '#333' : '#e0e0e0'}`,
+  }),
+  input: (theme: string): React.CSSProperties => ({
+    padding: '16px',
+    border: 'none',
+    borderBottom: `1px solid ${theme === 'dark' ? '#333' : '#e0e0e0'}`,
+    outline: 'none',
+    fontSize: '16px',
+    backgroundColor: 'transparent',
+    color: theme === 'dark' ? '#ffffff' : '#333333',
+  }),
+  list: (): React.CSSProperties => ({
+    overflowY: 'auto',
+    padding: '4px 0',
+  }),
+  sectionTitle: (theme: string): React.CSSProperties => ({
+    padding: '8px 16px 4px',
+    fontSize: '11px',
+    fontWeight: 600,
+    color: theme === 'dark' ? '#888' : '#666',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.5px',
+  }),
+  item: (theme: string, isSelected: boolean): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    width: '100%',
+    padding: '8px 16px',
+    border: 'none',
+    cursor: 'pointer',
+    textAlign: 'left' as const,
+    fontSize: '14px',
+    backgroundColor: isSelected
+      ? (theme === 'dark' ? '#2a2a4e' : '#e3f2fd')
+      : 'transparent',
+    color: theme === 'dark' ? '#e0e0e0' : '#333333',
+  }),
+  label: (): React.CSSProperties => ({
+    flex: 1,
+  }),
+  detail: (theme: string): React.CSSProperties => ({
+    fontSize: '12px',
+    color: theme === 'dark' ? '#888' : '#999',
+  }),
+  keySequence: (): React.CSSProperties => ({
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+  }),
+  keyBadge: (theme: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '2px 6px',
+    borderRadius: '4px',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    fontWeight: 500,
+    backgroundColor: theme === 'dark' ? '#2a2a3e' : '#f5f5f5',
+    color: theme === 'dark' ? '#e0e0e0' : '#333',
+    border: `1px solid ${theme === 'dark' ? '#3a3a4e' : '#ddd'}`,
+  }),
+  emptyState: (theme: string): React.CSSProperties => ({
+    padding: '24px',
+    textAlign: 'center' as const,
+    color: theme === 'dark' ? '#888' : '#999',
+    fontSize: '14px',
+  }),
+};
+
+// Score a fuzzy (subsequence) match of query in text; null if the text doesn't match
+const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  let score = 0;
+  let lastIndex = -1;
+
+  for (const char of q) {
+    if (char === ' ') continue;
+    const index = t.indexOf(char, lastIndex + 1);
+    if (index === -1) return null;
+
+    // Reward consecutive characters and matches at the start of a word
+    if (index === lastIndex + 1) score += 2;
+    if (index === 0 || /[\s.:_-]/.test(t[index - 1])) score += 3;
+    score -= (index - lastIndex - 1) * 0.1;
+    lastIndex = index;
+  }
+  return score;
+};
+
+// Collect runnable items: commands (with all of their bindings) and plain shortcuts
+const collectItems = (manager: KeyboardShortcutManager, filterComponents?: string[]): PaletteItem[] => {
+  const items: PaletteItem[] = [];
+  const seen = new Set<string>();
+  const commandBindings = new Map<string, KeyBinding[]>();
+
+  const isRunnable = (shortcut: RegisteredShortcut) =>
+    shortcut.componentId !== COMPONENT_ID &&
+    manager.isShortcutActive(shortcut) &&
+    (!filterComponents || filterComponents.includes(shortcut.componentId));
+
+  manager.getAllShortcuts().forEach(shortcuts => {
+    shortcuts.filter(isRunnable).forEach(shortcut => {
+      if (shortcut.command !== undefined) {
+        const bindings = commandBindings.get(shortcut.command) || [];
+        commandBindings.set(shortcut.command, [...bindings, shortcut.keys]);
+        return;
+      }
+
+      const key = `${shortcut.componentId}|${keyCombinationToString(shortcut.defaultKeys)}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      items.push({
+        key,
+        label: shortcut.description || keyCombinationToString(shortcut.keys, manager.getPlatform()),
+        detail: manager.getComponentLabel(shortcut.componentId),
+        bindings: [shortcut.keys],
+        run: () => {
+          // Still called beneath the palette's own scope, which closing hasn't popped yet
+          manager.runShortcut(shortcut.id, undefined, [COMMAND_PALETTE_SCOPE]);
+        },
+      });
+    });
+  });
+
+  const commandItems: PaletteItem[] = [];
+  manager.getCommands().forEach(command => {
+    const bindings = commandBindings.get(command.id) || [];
+    if (filterComponents && bindings.length === 0) return;
+
+    commandItems.push({
+      key: `command:${command.id}`,
+      label: command.title || command.id,
+      detail: command.description || command.id,
+      bindings,
+      run: () => {
+        manager.executeCommand(command.id);
+      },
+    });
+  });
+
+  return [...commandItems, ...items];
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  shortcut = 'Mod+Shift+P',
+  theme = 'light',
+  placeholder = 'Type a command or search shortcuts...',
+  maxRecent = 5,
+  filterComponents,
+}) => {
+  const manager = useShortcutManager();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [items, setItems] = useState<PaletteItem[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [recent, setRecent] = useState<string[]>([]);
+
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previousFocusRef = useRef<Element | null>(null);
+
+  const { register, clear } = useKeyboardShortcuts(COMPONENT_ID);
+
+  const open = useCallback(() => {
+    // Collect before the palette's exclusive scope shadows everything else
+    setItems(collectItems(manager, filterComponents));
+    setQuery('');
+    setSelectedIndex(0);
+    previousFocusRef.current = document.activeElement;
+    setIsOpen(true);
+  }, [manager, filterComponents]);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    const previous = previousFocusRef.current;
+    if (previous instanceof HTMLElement) previous.focus();
+  }, []);
+
+  useEffect(() => {
+    register([
+      {
+        keys: shortcut,
+        callback: open,
+        options: { description: 'Open command palette', allowIn: 'always' },
+      },
+      {
+        keys: shortcut,
+        callback: close,
+        options: { description: 'Close command palette', allowIn: 'always', scope: COMMAND_PALETTE_SCOPE },
+      },
+    ]);
+    return () => clear();
+  }, [register, clear, shortcut, open, close]);
+
+  // Page shortcuts are shadowed while the palette is open
+  useShortcutScope(COMMAND_PALETTE_SCOPE, { active: isOpen });
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  // Recently used items first when there is no query, otherwise ranked fuzzy matches
+  const sections: { title: string; items: PaletteItem[] }[] = [];
+  if (query.trim() === '') {
+    const recentItems = recent
+      .map(key => items.find(item => item.key === key))
+      .filter((item): item is PaletteItem => item !== undefined);
+    if (recentItems.length > 0) {
+      sections.push({ title: 'Recently used', items: recentItems });
+    }
+    sections.push({ title: 'All', items: items.filter(item => !recentItems.includes(item)) });
+  } else {
+    const platform = manager.getPlatform();
+    const ranked = items
+      .map(item => {
+        const text = [item.label, item.detail, ...item.bindings.map(b => keyCombinationToString(b, platform))].join(' ');
+        return { item, score: fuzzyScore(query, text) };
+      })
+      .filter((result): result is { item: PaletteItem; score: number } => result.score !== null)
+      .sort((a, b) => b.score - a.score);
+    sections.push({ title: 'Results', items: ranked.map(result => result.item) });
+  }
+  const visibleItems = sections.reduce<PaletteItem[]>((all, section) => all.concat(section.items), []);
+
+  const runItem = (item: PaletteItem) => {
+    setRecent(prev => [item.key, ...prev.filter(key => key !== item.key)].slice(0, maxRecent));
+    close();
+    item.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setSelectedIndex(index => (visibleItems.length ? (index + 1) % visibleItems.length : 0));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setSelectedIndex(index => (visibleItems.length ? (index - 1 + visibleItems.length) % visibleItems.length : 0));
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (visibleItems[selectedIndex]) runItem(visibleItems[selectedIndex]);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        close();
+        break;
+      case 'Tab': {
+        // Trap focus inside the dialog
+        const focusable = dialogRef.current?.querySelectorAll<HTMLElement>('input, button:not([tabindex="-1"])');
+        if (!focusable || focusable.length === 0) return;
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (event.shiftKey && document.activeElement === first) {
+          event.preventDefault();
+          last.focus();
+        } else if (!event.shiftKey && document.activeElement === last) {
+          event.preventDefault();
+          first.focus();
+        }
+        break;
+      }
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const platform = manager.getPlatform();
+  let itemIndex = 0;
+
+  return (
+    <div
+      style={styles.backdrop(theme)}
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) close();
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        style={styles.dialog(theme)}
+        onKeyDown={handleKeyDown}
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-list"
+          aria-activedescendant={visibleItems[selectedIndex] ? `command-palette-item-${selectedIndex}` : undefined}
+          value={query}
+          placeholder={placeholder}
+          style={styles.input(theme)}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelectedIndex(0);
+          }}
+        />
+        <div id="command-palette-list" role="listbox" style={styles.list()}>
+          {visibleItems.length === 0 ? (
+            <div style={styles.emptyState(theme)}>No matching commands</div>
+          ) : (
+            sections.filter(section => section.items.length > 0).map(section => (
+              <div key={section.title} role="group" aria-label={section.title}>
+                <div style={styles.sectionTitle(theme)}>{section.title}</div>
+                {section.items.map(item => {
+                  const index = itemIndex++;
+                  return (
+                    <button
+                      key={item.key}
+                      id={`command-palette-item-${index}`}
+                      role="option"
+                      aria-selected={index === selectedIndex}
+                      tabIndex={-1}
+                      style={styles.item(theme, index === selectedIndex)}
+                      onMouseEnter={() => setSelectedIndex(index)}
+                      onClick={() => runItem(item)}
+                    >
+                      <span style={styles.label()}>
+                        {item.label}
+                        <span style={{ ...styles.detail(theme), marginLeft: '8px' }}>{item.detail}</span>
+                      </span>
+                      {item.bindings.map((binding, bindingIndex) => (
+                        <span key={bindingIndex} style={styles.keySequence()}>
+                          {toKeySequence(binding).map((combo, comboIndex) => (
+                            <span key={comboIndex} style={styles.keyBadge(theme)}>
+                              {keyCombinationToString(combo, platform)}
+                            </span>
+                          ))}
+                        </span>
+                      ))}
+                    </button>
+                  );
+                })}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
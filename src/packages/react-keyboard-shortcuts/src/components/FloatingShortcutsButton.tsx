@@ -1,9 +1,18 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { getShortcutManager, keyCombinationToString } from '../core';
-import { RegisteredShortcut, ManagerEvent } from '../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { keyCombinationToString, toKeySequence, isDispatchEvent } from '../core';
+import { useShortcutManager } from '../hooks';
+import { RegisteredShortcut, RegisteredCommand, ManagerEvent } from '../types';
 
 type TabType = 'active' | 'available';
 
+const TABS: { id: TabType; label: string }[] = [
+  { id: 'active', label: 'Active Shortcuts' },
+  { id: 'available', label: 'Available Keys' },
+];
+
+// Numbers each mounted panel, for unique tab and panel IDs
+let panelCount = 0;
+
 export interface FloatingShortcutsButtonProps {
   position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
   buttonText?: string;
@@ -17,6 +26,11 @@ interface ComponentShortcuts {
   shortcuts: RegisteredShortcut[];
 }
 
+interface CommandBindings {
+  command: RegisteredCommand;
+  bindings: RegisteredShortcut[];
+}
+
 const styles = {
   container: (position: string): React.CSSProperties => {
     const positionStyles: Record<string, React.CSSProperties> = {
@@ -102,6 +116,11 @@ const styles = {
       : (theme === 'dark' ? '#e57373' : '#c62828'),
     opacity: enabled ? 1 : 0.7,
   }),
+  keySequence: (): React.CSSProperties => ({
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+  }),
   description: (theme: string): React.CSSProperties => ({
     fontSize: '13px',
     color: theme === 'dark' ? '#b0b0b0' : '#666666',
@@ -225,40 +244,73 @@ export const FloatingShortcutsButton: React.FC<FloatingShortcutsButtonProps> = (
   theme = 'light',
   filterComponents,
 }) => {
+  const manager = useShortcutManager();
   const [isOpen, setIsOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>('active');
   const [componentShortcuts, setComponentShortcuts] = useState<ComponentShortcuts[]>([]);
+  const [commandBindings, setCommandBindings] = useState<CommandBindings[]>([]);
+
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const tabRefs = useRef<Partial<Record<TabType, HTMLButtonElement | null>>>({});
+  // useId needs React 18; the package supports React 16.8+
+  const [panelId] = useState(() => `shortcuts-panel-${++panelCount}`);
+  const tabId = (tab: TabType) => `${panelId}-tab-${tab}`;
+  const tabPanelId = (tab: TabType) => `${panelId}-panel-${tab}`;
 
   const updateShortcuts = useCallback(() => {
-    const manager = getShortcutManager();
     const allShortcuts = manager.getAllShortcuts();
     const result: ComponentShortcuts[] = [];
+    const isVisible = (componentId: string) => !filterComponents || filterComponents.includes(componentId);
 
     allShortcuts.forEach((shortcuts, componentId) => {
-      if (filterComponents && !filterComponents.includes(componentId)) {
+      if (!isVisible(componentId)) {
         return;
       }
-      if (shortcuts.length > 0) {
-        result.push({ componentId, shortcuts });
+      // Bindings to commands are listed under their command instead
+      const callbacks = shortcuts.filter(s => s.command === undefined);
+      if (callbacks.length > 0) {
+        result.push({ componentId, shortcuts: callbacks });
       }
     });
 
+    const commands = manager.getCommands()
+      .map(command => ({
+        command,
+        bindings: manager.getCommandBindings(command.id).filter(s => isVisible(s.componentId)),
+      }))
+      // With a filter, only show commands bound in the filtered components
+      .filter(({ bindings }) => !filterComponents || bindings.length > 0);
+
     setComponentShortcuts(result);
-  }, [filterComponents]);
+    setCommandBindings(commands);
+  }, [manager, filterComponents]);
 
   useEffect(() => {
-    const manager = getShortcutManager();
     updateShortcuts();
 
     // Subscribe to changes
     const unsubscribe = manager.subscribe((event: ManagerEvent) => {
-      updateShortcuts();
+      if (!isDispatchEvent(event)) updateShortcuts();
     });
 
     return () => {
       unsubscribe();
     };
-  }, [updateShortcuts]);
+  }, [manager, updateShortcuts]);
+
+  const componentMeta = (componentId: string) => manager.getComponentMeta(componentId);
+  // Enabled, in an active scope and its when clause holds
+  const isActive = (shortcut: RegisteredShortcut) => manager.isShortcutActive(shortcut);
+
+  const renderKeys = (shortcut: RegisteredShortcut) => (
+    <span key={shortcut.id} style={styles.keySequence()}>
+      {toKeySequence(shortcut.keys).map((combo, index) => (
+        <span key={index} style={styles.keyBadge(theme, isActive(shortcut))}>
+          {keyCombinationToString(combo, manager.getPlatform())}
+        </span>
+      ))}
+    </span>
+  );
 
   const togglePanel = () => {
     if (!isOpen) {
@@ -267,6 +319,52 @@ export const FloatingShortcutsButton: React.FC<FloatingShortcutsButtonProps> = (
     setIsOpen(!isOpen);
   };
 
+  // Move focus into the panel when it opens (switching tabs moves focus itself)
+  const wasOpenRef = useRef(false);
+  useEffect(() => {
+    if (isOpen && !wasOpenRef.current) tabRefs.current[activeTab]?.focus();
+    wasOpenRef.current = isOpen;
+  }, [isOpen, activeTab]);
+
+  const closePanel = () => {
+    setIsOpen(false);
+    buttonRef.current?.focus();
+  };
+
+  // Escape closes the panel (without reaching page shortcuts) and returns focus to the button
+  const handlePanelKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' && isOpen) {
+      event.preventDefault();
+      event.stopPropagation();
+      closePanel();
+    }
+  };
+
+  // Arrow keys, Home and End move between tabs (automatic activation)
+  const handleTabKeyDown = (event: React.KeyboardEvent) => {
+    const index = TABS.findIndex(tab => tab.id === activeTab);
+    let next: number;
+    switch (event.key) {
+      case 'ArrowRight':
+        next = (index + 1) % TABS.length;
+        break;
+      case 'ArrowLeft':
+        next = (index - 1 + TABS.length) % TABS.length;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = TABS.length - 1;
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    setActiveTab(TABS[next].id);
+    tabRefs.current[TABS[next].id]?.focus();
+  };
+
   // Close panel when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -283,8 +381,13 @@ export const FloatingShortcutsButton: React.FC<FloatingShortcutsButtonProps> = (
   }, [isOpen]);
 
   return (
-    <div style={styles.container(position)} data-shortcuts-panel>
+    <div style={styles.container(position)} data-shortcuts-panel onKeyDown={handlePanelKeyDown}>
       <button
+        ref={buttonRef}
+        type="button"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? panelId : undefined}
+        aria-haspopup="dialog"
         onClick={togglePanel}
         style={styles.button(theme)}
         onMouseEnter={(e) => {
@@ -299,61 +402,92 @@ export const FloatingShortcutsButton: React.FC<FloatingShortcutsButtonProps> = (
       </button>
 
       {isOpen && (
-        <div style={styles.panel(theme, position)}>
+        <div id={panelId} role="dialog" aria-label="Keyboard shortcuts" style={styles.panel(theme, position)}>
           {/* Tabs */}
-          <div style={styles.tabs(theme)}>
-            <button
-              style={styles.tab(theme, activeTab === 'active')}
-              onClick={() => setActiveTab('active')}
-            >
-              Active Shortcuts
-            </button>
-            <button
-              style={styles.tab(theme, activeTab === 'available')}
-              onClick={() => setActiveTab('available')}
-            >
-              Available Keys
-            </button>
+          <div role="tablist" aria-label="Shortcut views" style={styles.tabs(theme)} onKeyDown={handleTabKeyDown}>
+            {TABS.map(tab => (
+              <button
+                key={tab.id}
+                ref={(element) => {
+                  tabRefs.current[tab.id] = element;
+                }}
+                id={tabId(tab.id)}
+                type="button"
+                role="tab"
+                aria-selected={activeTab === tab.id}
+                aria-controls={tabPanelId(tab.id)}
+                tabIndex={activeTab === tab.id ? 0 : -1}
+                style={styles.tab(theme, activeTab === tab.id)}
+                onClick={() => setActiveTab(tab.id)}
+              >
+                {tab.label}
+              </button>
+            ))}
           </div>
 
           {/* Active Shortcuts Tab */}
           {activeTab === 'active' && (
-            <>
-              {componentShortcuts.length === 0 ? (
+            <div role="tabpanel" id={tabPanelId('active')} aria-labelledby={tabId('active')} tabIndex={0}>
+              {componentShortcuts.length === 0 && commandBindings.length === 0 ? (
                 <div style={styles.emptyState(theme)}>
                   No shortcuts registered
                 </div>
-              ) : (
-                componentShortcuts.map(({ componentId, shortcuts }) => (
-                  <div key={componentId} style={styles.componentSection(theme)}>
-                    <div style={styles.componentTitle(theme)}>
-                      {componentId}
-                    </div>
-                    {shortcuts.map((shortcut) => (
-                      <div key={shortcut.id} style={styles.shortcutRow(theme)}>
-                        <span style={styles.keyBadge(theme, shortcut.enabled)}>
-                          {keyCombinationToString(shortcut.keys)}
-                        </span>
-                        <span style={styles.description(theme)}>
-                          {shortcut.description || 'No description'}
-                        </span>
-                        <span style={styles.statusBadge(shortcut.enabled)}>
-                          {shortcut.enabled ? 'ON' : 'OFF'}
-                        </span>
-                      </div>
-                    ))}
+              ) : null}
+
+              {commandBindings.length > 0 && (
+                <div style={styles.componentSection(theme)}>
+                  <div style={styles.componentTitle(theme)}>
+                    Commands
                   </div>
-                ))
+                  {commandBindings.map(({ command, bindings }) => (
+                    <div key={command.id} style={styles.shortcutRow(theme)}>
+                      <span style={styles.keySequence()}>
+                        {bindings.length > 0
+                          ? bindings.map(renderKeys)
+                          : <span style={styles.keyBadge(theme, false)}>Unbound</span>}
+                      </span>
+                      <span style={styles.description(theme)} title={command.description}>
+                        {command.title || command.id}
+                      </span>
+                      {bindings.length > 0 && (
+                        <span style={styles.statusBadge(bindings.some(isActive))}>
+                          {bindings.some(isActive) ? 'ON' : 'OFF'}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
               )}
-            </>
+
+              {componentShortcuts.map(({ componentId, shortcuts }) => (
+                <div key={componentId} style={styles.componentSection(theme)}>
+                  <div style={styles.componentTitle(theme)} title={componentMeta(componentId)?.description}>
+                    {componentMeta(componentId)?.icon && `${componentMeta(componentId)?.icon} `}
+                    {manager.getComponentLabel(componentId)}
+                  </div>
+                  {shortcuts.map((shortcut) => (
+                    <div key={shortcut.id} style={styles.shortcutRow(theme)}>
+                      {renderKeys(shortcut)}
+                      <span style={styles.description(theme)}>
+                        {shortcut.description || 'No description'}
+                      </span>
+                      <span style={styles.statusBadge(isActive(shortcut))}>
+                        {isActive(shortcut) ? 'ON' : 'OFF'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
           )}
 
           {/* Available Keys Tab */}
           {activeTab === 'available' && (
-            <>
+            <div role="tabpanel" id={tabPanelId('available')} aria-labelledby={tabId('available')} tabIndex={0}>
               <div style={styles.modifierInfo(theme)}>
-                <strong>Modifiers:</strong> Ctrl, Alt, Shift, Meta (Cmd/Win)<br />
-                <span style={{ opacity: 0.8 }}>Combine with keys below, e.g., Ctrl+S, Alt+Enter</span>
+                <strong>Modifiers:</strong> Ctrl, Alt, Shift, Meta (Cmd/Win), Mod (Cmd on macOS, Ctrl elsewhere)<br />
+                <span style={{ opacity: 0.8 }}>Combine with keys below, e.g., Ctrl+S, Alt+Enter</span><br />
+                <span style={{ opacity: 0.8 }}>Separate strokes with a space for sequences, e.g., g g, Ctrl+K Ctrl+C</span>
               </div>
               {Object.entries(keyCategories).map(([category, keys]) => (
                 <div key={category} style={styles.keyCategory(theme)}>
@@ -367,7 +501,7 @@ export const FloatingShortcutsButton: React.FC<FloatingShortcutsButtonProps> = (
                   </div>
                 </div>
               ))}
-            </>
+            </div>
           )}
         </div>
       )}
@@ -0,0 +1,69 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { KeyboardShortcutManager } from '../core';
+import { ShortcutCheatSheet, CHEAT_SHEET_SCOPE } from './ShortcutCheatSheet';
+import { ShortcutProvider } from './ShortcutProvider';
+
+const keyDown = (init: KeyboardEventInit): void => {
+  act(() => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+  });
+};
+
+const openSheet = () => keyDown({ key: '?', code: 'Slash', shiftKey: true });
+
+let manager: KeyboardShortcutManager;
+let next: jest.Mock;
+
+beforeEach(() => {
+  manager = new KeyboardShortcutManager({ detectPlatform: () => 'other' });
+  next = jest.fn();
+  manager.register('list', [
+    { keys: 'j', callback: next, options: { description: 'Next item', category: 'Navigation' } },
+    { keys: 'x', callback: jest.fn(), options: { description: 'Select item', when: 'listFocused' } },
+  ]);
+  manager.register('dialog', [
+    { keys: 'Enter', callback: jest.fn(), options: { description: 'Confirm', scope: 'dialog' } },
+  ]);
+});
+
+afterEach(() => {
+  manager.destroy();
+});
+
+const renderSheet = () => render(
+  <ShortcutProvider manager={manager}>
+    <ShortcutCheatSheet />
+  </ShortcutProvider>
+);
+
+test('lists the shortcuts active beneath it, by category', () => {
+  renderSheet();
+  openSheet();
+
+  const sheet = screen.getByRole('dialog', { name: 'Keyboard Shortcuts' });
+  expect(sheet).toHaveTextContent('Navigation');
+  expect(sheet).toHaveTextContent('Next item');
+  // Its when clause is false, and the dialog scope isn't on the stack
+  expect(sheet).not.toHaveTextContent('Select item');
+  expect(sheet).not.toHaveTextContent('Confirm');
+
+  act(() => {
+    manager.setContext('listFocused', true);
+  });
+  expect(sheet).toHaveTextContent('Select item');
+});
+
+test('shadows page shortcuts while open and closes with Escape', () => {
+  renderSheet();
+  openSheet();
+  expect(manager.isScopeActive(CHEAT_SHEET_SCOPE)).toBe(true);
+
+  keyDown({ key: 'j' });
+  expect(next).not.toHaveBeenCalled();
+
+  keyDown({ key: 'Escape' });
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  keyDown({ key: 'j' });
+  expect(next).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { KeyboardShortcutManager, keyCombinationToString, toKeySequence, isDispatchEvent } from '../core';
+import { useKeyboardShortcuts, useShortcutScope, useShortcutManager } from '../hooks';
+import { KeyBinding } from '../types';
+
+// Scope pushed while the cheat sheet is open
+export const CHEAT_SHEET_SCOPE = 'shortcut-cheat-sheet';
+
+const COMPONENT_ID = 'shortcut-cheat-sheet';
+
+export interface ShortcutCheatSheetProps {
+  // Shortcut that opens the cheat sheet (and closes it while open)
+  shortcut?: string;
+  theme?: 'light' | 'dark';
+  title?: string;
+  columns?: number;
+  // Category for shortcuts registered without one (or a component label)
+  defaultCategory?: string;
+  filterComponents?: string[];
+}
+
+interface CheatSheetRow {
+  key: string;
+  description: string;
+  bindings: KeyBinding[];
+}
+
+interface CheatSheetCategory {
+  name: string;
+  rows: CheatSheetRow[];
+}
+
+// Hides the rest of the page and drops the backdrop when printing
+const PRINT_STYLESHEET = `
+@media print {
+  body * { visibility: hidden; }
+  .rks-cheat-sheet, .rks-cheat-sheet * { visibility: visible; }
+  .rks-cheat-sheet { position: absolute !important; inset: 0; overflow: visible !important; background: #fff !important; color: #000 !important; }
+  .rks-cheat-sheet * { color: #000 !important; background: transparent !important; border-color: #999 !important; box-shadow: none !important; }
+  .rks-cheat-sheet-actions { display: none !important; }
+}
+`;
+
+const styles = {
+  overlay: (theme: string): React.CSSProperties => ({
+    position: 'fixed',
+    inset: 0,
+    zIndex: 10000,
+    overflowY: 'auto',
+    padding: '40px',
+    backgroundColor: theme === 'dark' ? 'rgba(26, 26, 46, 0.98)' : 'rgba(255, 255, 255, 0.98)',
+    color: theme === 'dark' ? '#ffffff' : '#333333',
+  }),
+  header: (): React.CSSProperties => ({
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '24px',
+  }),
+  title: (): React.CSSProperties => ({
+    margin: 0,
+    fontSize: '24px',
+    fontWeight: 600,
+  }),
+  actions: (): React.CSSProperties => ({
+    display: 'flex',
+    gap: '8px',
+  }),
+  actionButton: (theme: string): React.CSSProperties => ({
+    padding: '8px 14px',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontSize: '13px',
+    backgroundColor: 'transparent',
+    color: theme === 'dark' ? '#e0e0e0' : '#333',
+    border: `1px solid ${theme === 'dark' ? '#3a3a4e' : '#ddd'}`,
+  }),
+  columns: (columns: number): React.CSSProperties => ({
+    columnCount: columns,
+    columnGap: '32px',
+  }),
+  category: (): React.CSSProperties => ({
+    breakInside: 'avoid',
+    marginBottom: '24px',
+  }),
+  categoryTitle: (theme: string): React.CSSProperties => ({
+    fontSize: '12px',
+    fontWeight: 600,
+    color: theme === 'dark' ? '#888' : '#666',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.5px',
+    paddingBottom: '6px',
+    marginBottom: '6px',
+    borderBottom: `1px solid ${theme === 'dark' ? '#333' : '#e0e0e0'}`,
+  }),
+  row: (): React.CSSProperties => ({
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '4px 0',
+    fontSize: '14px',
+  }),
+  keys: (): React.CSSProperties => ({
+    display: 'inline-flex',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: '4px',
+  }),
+  keyBadge: (theme: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '2px 6px',
+    borderRadius: '4px',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    fontWeight: 500,
+    backgroundColor: theme === 'dark' ? '#2a2a3e' : '#f5f5f5',
+    color: theme === 'dark' ? '#e0e0e0' : '#333',
+    border: `1px solid ${theme === 'dark' ? '#3a3a4e' : '#ddd'}`,
+  }),
+  emptyState: (theme: string): React.CSSProperties => ({
+    padding: '24px',
+    textAlign: 'center' as const,
+    color: theme === 'dark' ? '#888' : '#999',
+    fontSize: '14px',
+  }),
+};
+
+// Group active bindings by category; a command's bindings share one row
+const collectCategories = (
+  manager: KeyboardShortcutManager,
+  defaultCategory: string,
+  filterComponents?: string[]
+): CheatSheetCategory[] => {
+  const categories = new Map<string, Map<string, CheatSheetRow>>();
+
+  const addRow = (category: string, key: string, description: string, binding: KeyBinding) => {
+    if (!categories.has(category)) categories.set(category, new Map());
+    const rows = categories.get(category)!;
+    const row = rows.get(key);
+    if (row) {
+      row.bindings.push(binding);
+    } else {
+      rows.set(key, { key, description, bindings: [binding] });
+    }
+  };
+
+  manager.getAllShortcuts().forEach((shortcuts, componentId) => {
+    if (componentId === COMPONENT_ID) return;
+    if (filterComponents && !filterComponents.includes(componentId)) return;
+
+    shortcuts.forEach(shortcut => {
+      // Active as if the cheat sheet's own scope weren't on the stack
+      if (!manager.isShortcutActive(shortcut, [CHEAT_SHEET_SCOPE])) return;
+
+      const command = shortcut.command !== undefined ? manager.getCommand(shortcut.command) : undefined;
+      if (command) {
+        addRow(
+          shortcut.category || command.category || defaultCategory,
+          `command:${command.id}`,
+          command.title || command.description || command.id,
+          shortcut.keys
+        );
+      } else {
+        addRow(
+          // Uncategorized shortcuts are grouped under their component's label, if it has one
+          shortcut.category || manager.getComponentMeta(componentId)?.label || defaultCategory,
+          `${componentId}|${shortcut.id}`,
+          shortcut.description || keyCombinationToString(shortcut.keys, manager.getPlatform()),
+          shortcut.keys
+        );
+      }
+    });
+  });
+
+  return Array.from(categories.entries())
+    .map(([name, rows]) => ({
+      name,
+      rows: Array.from(rows.values()).sort((a, b) => a.description.localeCompare(b.description)),
+    }))
+    // Alphabetical, with the default category last
+    .sort((a, b) => {
+      if (a.name === defaultCategory) return 1;
+      if (b.name === defaultCategory) return -1;
+      return a.name.localeCompare(b.name);
+    });
+};
+
+export const ShortcutCheatSheet: React.FC<ShortcutCheatSheetProps> = ({
+  shortcut = '?',
+  theme = 'light',
+  title = 'Keyboard Shortcuts',
+  columns = 3,
+  defaultCategory = 'General',
+  filterComponents,
+}) => {
+  const manager = useShortcutManager();
+  const [isOpen, setIsOpen] = useState(false);
+  const [categories, setCategories] = useState<CheatSheetCategory[]>([]);
+
+  const { register, clear } = useKeyboardShortcuts(COMPONENT_ID);
+
+  const open = useCallback(() => setIsOpen(true), []);
+  const close = useCallback(() => setIsOpen(false), []);
+
+  useEffect(() => {
+    register([
+      {
+        keys: shortcut,
+        callback: open,
+        options: { description: 'Show keyboard shortcuts', category: defaultCategory },
+      },
+      {
+        keys: shortcut,
+        callback: close,
+        options: { description: 'Close keyboard shortcuts', scope: CHEAT_SHEET_SCOPE },
+      },
+      {
+        keys: 'Escape',
+        callback: close,
+        options: { description: 'Close keyboard shortcuts', scope: CHEAT_SHEET_SCOPE, allowIn: 'always' },
+      },
+    ]);
+    return () => clear();
+  }, [register, clear, shortcut, defaultCategory, open, close]);
+
+  // Page shortcuts are shadowed while the overlay is open
+  useShortcutScope(CHEAT_SHEET_SCOPE, { active: isOpen });
+
+  // Update live while open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const update = () => setCategories(collectCategories(manager, defaultCategory, filterComponents));
+    update();
+    return manager.subscribe(event => {
+      if (!isDispatchEvent(event)) update();
+    });
+  }, [manager, isOpen, defaultCategory, filterComponents]);
+
+  if (!isOpen) return null;
+
+  const platform = manager.getPlatform();
+
+  return (
+    <div
+      className="rks-cheat-sheet"
+      role="dialog"
+      aria-modal="true"
+      aria-label={title}
+      style={styles.overlay(theme)}
+    >
+      <style>{PRINT_STYLESHEET}</style>
+      <div style={styles.header()}>
+        <h2 style={styles.title()}>{title}</h2>
+        <div className="rks-cheat-sheet-actions" style={styles.actions()}>
+          <button type="button" style={styles.actionButton(theme)} onClick={() => window.print()}>
+            Print
+          </button>
+          <button type="button" style={styles.actionButton(theme)} onClick={close}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      {categories.length === 0 ? (
+        <div style={styles.emptyState(theme)}>No shortcuts registered</div>
+      ) : (
+        <div style={styles.columns(columns)}>
+          {categories.map(category => (
+            <section key={category.name} style={styles.category()}>
+              <div style={styles.categoryTitle(theme)}>{category.name}</div>
+              {category.rows.map(row => (
+                <div key={row.key} style={styles.row()}>
+                  <span>{row.description}</span>
+                  <span style={styles.keys()}>
+                    {row.bindings.map((binding, bindingIndex) => (
+                      <span key={bindingIndex} style={styles.keys()}>
+                        {toKeySequence(binding).map((combo, index) => (
+                          <kbd key={index} style={styles.keyBadge(theme)}>
+                            {keyCombinationToString(combo, platform)}
+                          </kbd>
+                        ))}
+                      </span>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShortcutCheatSheet;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { keyCombinationToString } from '../core';
+import { useShortcutManager } from '../hooks';
+import { DebugCandidate, DebugReason, DebugRecord } from '../types';
+
+export interface ShortcutDebuggerProps {
+  theme?: 'light' | 'dark';
+  position?: 'bottom-left' | 'bottom-right' | 'top-left' | 'top-right';
+  // Key presses to show, newest first
+  maxRecords?: number;
+  // Also list shortcuts bound to other keys (hidden by default)
+  showAllCandidates?: boolean;
+  filterComponents?: string[];
+}
+
+const REASON_LABELS: Record<DebugReason, string> = {
+  fired: 'fired',
+  pending: 'waiting for the next stroke',
+  shadowed: 'handled by another shortcut first',
+  passed: 'callback returned false',
+  disabled: 'disabled',
+  scope: 'scope not active',
+  when: 'when clause is false',
+  target: 'pressed outside its element',
+  editable: 'blocked in input field (allowIn)',
+  running: 'previous call still running',
+  key: 'different key',
+  modifiers: 'modifier mismatch',
+  repeat: 'auto-repeat not allowed',
+  keyup: 'fires on keyup',
+  sequence: 'another sequence is pending',
+};
+
+const styles = {
+  panel: (theme: string, position: string): React.CSSProperties => ({
+    position: 'fixed',
+    zIndex: 10001,
+    width: '380px',
+    maxHeight: '60vh',
+    display: 'flex',
+    flexDirection: 'column',
+    borderRadius: '8px',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    backgroundColor: theme === 'dark' ? '#1a1a2e' : '#ffffff',
+    color: theme === 'dark' ? '#e0e0e0' : '#333333',
+    border: `1px solid ${theme === 'dark' ? '#3a3a4e' : '#ddd'}`,
+    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.2)',
+    ...(position.includes('bottom') ? { bottom: '20px' } : { top: '20px' }),
+    ...(position.includes('left') ? { left: '20px' } : { right: '20px' }),
+  }),
+  header: (theme: string): React.CSSProperties => ({
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 12px',
+    fontWeight: 600,
+    borderBottom: `1px solid ${theme === 'dark' ? '#333' : '#e0e0e0'}`,
+  }),
+  clearButton: (theme: string): React.CSSProperties => ({
+    padding: '2px 8px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px',
+    backgroundColor: 'transparent',
+    color: theme === 'dark' ? '#e0e0e0' : '#333',
+    border: `1px solid ${theme === 'dark' ? '#3a3a4e' : '#ddd'}`,
+  }),
+  list: (): React.CSSProperties => ({
+    overflowY: 'auto',
+    margin: 0,
+    padding: 0,
+    listStyle: 'none',
+  }),
+  record: (theme: string): React.CSSProperties => ({
+    padding: '8px 12px',
+    borderBottom: `1px solid ${theme === 'dark' ? '#2a2a3e' : '#f0f0f0'}`,
+  }),
+  keyBadge: (theme: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '2px 6px',
+    marginRight: '8px',
+    borderRadius: '4px',
+    fontWeight: 500,
+    backgroundColor: theme === 'dark' ? '#2a2a3e' : '#f5f5f5',
+    border: `1px solid ${theme === 'dark' ? '#3a3a4e' : '#ddd'}`,
+  }),
+  details: (theme: string): React.CSSProperties => ({
+    color: theme === 'dark' ? '#888' : '#999',
+  }),
+  candidate: (accepted: boolean, fired: boolean): React.CSSProperties => ({
+    paddingLeft: '12px',
+    color: fired ? '#43a047' : accepted ? '#f57c00' : '#e53935',
+  }),
+  emptyState: (theme: string): React.CSSProperties => ({
+    padding: '16px',
+    textAlign: 'center' as const,
+    color: theme === 'dark' ? '#888' : '#999',
+  }),
+};
+
+// Details of a key press beyond its key string
+const describePress = (record: DebugRecord): string => {
+  const parts = [`code ${record.code || '-'}`, `on ${record.target}`];
+  if (record.repeat) parts.push('repeat');
+  if (record.stroke > 0) parts.push(`stroke ${record.stroke + 1}`);
+  if (record.suspended) parts.push('manager suspended');
+  return parts.join(' · ');
+};
+
+// Dev-only panel showing each key press and why every candidate shortcut did or didn't fire
+export const ShortcutDebugger: React.FC<ShortcutDebuggerProps> = ({
+  theme = 'dark',
+  position = 'bottom-left',
+  maxRecords = 20,
+  showAllCandidates = false,
+  filterComponents,
+}) => {
+  const manager = useShortcutManager();
+  const [records, setRecords] = useState<DebugRecord[]>([]);
+
+  // Record key presses while mounted
+  useEffect(() => {
+    const stopDebugging = manager.startDebugging();
+    setRecords(manager.getDebugLog().reverse().slice(0, maxRecords));
+
+    const unsubscribe = manager.subscribe(event => {
+      const record = event.debug;
+      if (event.type === 'debug' && record) {
+        setRecords(prev => [record, ...prev].slice(0, maxRecords));
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      stopDebugging();
+    };
+  }, [manager, maxRecords]);
+
+  const handleClear = () => {
+    manager.clearDebugLog();
+    setRecords([]);
+  };
+
+  const platform = manager.getPlatform();
+
+  const visibleCandidates = (record: DebugRecord): DebugCandidate[] =>
+    record.candidates.filter(candidate =>
+      (showAllCandidates || candidate.reason !== 'key') &&
+      (!filterComponents || filterComponents.includes(candidate.shortcut.componentId))
+    );
+
+  return (
+    <div role="log" aria-label="Shortcut debugger" style={styles.panel(theme, position)}>
+      <div style={styles.header(theme)}>
+        <span>Shortcut Debugger</span>
+        <button type="button" style={styles.clearButton(theme)} onClick={handleClear}>
+          Clear
+        </button>
+      </div>
+
+      {records.length === 0 ? (
+        <div style={styles.emptyState(theme)}>Press a key to see how it is matched</div>
+      ) : (
+        <ul style={styles.list()}>
+          {records.map(record => {
+            const candidates = visibleCandidates(record);
+            return (
+              <li key={record.id} style={styles.record(theme)}>
+                <div>
+                  <kbd style={styles.keyBadge(theme)}>{record.keyString || record.key}</kbd>
+                  <span style={styles.details(theme)}>{describePress(record)}</span>
+                </div>
+                {candidates.length === 0 && !record.suspended && (
+                  <div style={styles.details(theme)}>No shortcut is bound to this key</div>
+                )}
+                {candidates.map(({ shortcut, accepted, reason }) => (
+                  <div key={shortcut.id} style={styles.candidate(accepted, reason === 'fired')}>
+                    {accepted ? '✓' : '✗'}{' '}
+                    {shortcut.description || keyCombinationToString(shortcut.keys, platform)}
+                    {' '}({manager.getComponentLabel(shortcut.componentId)}): {REASON_LABELS[reason]}
+                  </div>
+                ))}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShortcutDebugger;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { KeyboardShortcutManager } from '../core';
+import { ShortcutInput } from './ShortcutInput';
+import { ShortcutProvider } from './ShortcutProvider';
+
+const keyDown = (init: KeyboardEventInit): void => {
+  act(() => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+  });
+};
+
+let manager: KeyboardShortcutManager;
+
+beforeEach(() => {
+  manager = new KeyboardShortcutManager({ detectPlatform: () => 'other' });
+});
+
+afterEach(() => {
+  manager.destroy();
+});
+
+const renderInput = (onChange: (keyString: string) => void) => render(
+  <ShortcutProvider manager={manager}>
+    <ShortcutInput value="Ctrl+S" onChange={onChange} />
+  </ShortcutProvider>
+);
+
+test('records a binding and warns about existing ones', () => {
+  const onChange = jest.fn();
+  manager.registerComponent('search', { label: 'Search bar' });
+  manager.register('search', [{ keys: 'Ctrl+K', callback: jest.fn(), options: { description: 'Find' } }]);
+  renderInput(onChange);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Record shortcut' }));
+  expect(screen.getByRole('button', { pressed: true })).toHaveTextContent('Press keys');
+
+  keyDown({ key: 'k', ctrlKey: true });
+  expect(onChange).toHaveBeenCalledWith('Ctrl+K');
+  expect(screen.getByRole('status')).toHaveTextContent('Also bound to: Find (Search bar)');
+});
+
+test('Escape keeps the current value', () => {
+  const onChange = jest.fn();
+  renderInput(onChange);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Record shortcut' }));
+  keyDown({ key: 'Escape' });
+  expect(onChange).not.toHaveBeenCalled();
+  expect(screen.getByRole('button', { pressed: false })).toHaveTextContent('Ctrl+S');
+});
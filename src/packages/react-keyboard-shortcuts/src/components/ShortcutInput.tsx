@@ -0,0 +1,139 @@
+import React from 'react';
+import { keyCombinationToString, parseKeyBinding, toKeySequence } from '../core';
+import { useKeyRecorder, useShortcutManager } from '../hooks';
+import { KeyBinding, KeyMatchMode } from '../types';
+
+export interface ShortcutInputProps {
+  // Current key string (e.g. 'Ctrl+S')
+  value?: string;
+  // Called with the canonical key string once a valid binding is recorded
+  onChange?: (keyString: string) => void;
+  placeholder?: string;
+  theme?: 'light' | 'dark';
+  // Strokes to record; more than 1 records a sequence (default 1)
+  maxStrokes?: number;
+  match?: KeyMatchMode;
+  // Scope and ID of the shortcut being rebound, for conflict checks
+  scope?: string;
+  excludeId?: string;
+  disabled?: boolean;
+}
+
+const styles = {
+  container: (): React.CSSProperties => ({
+    display: 'inline-flex',
+    flexDirection: 'column',
+    gap: '4px',
+  }),
+  field: (theme: string, isRecording: boolean): React.CSSProperties => ({
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    minWidth: '160px',
+    minHeight: '32px',
+    padding: '4px 8px',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontSize: '13px',
+    backgroundColor: theme === 'dark' ? '#1a1a2e' : '#ffffff',
+    color: theme === 'dark' ? '#e0e0e0' : '#333333',
+    border: `1px solid ${isRecording
+      ? (theme === 'dark' ? '#64b5f6' : '#1976d2')
+      : (theme === 'dark' ? '#3a3a4e' : '#ddd')}`,
+  }),
+  keyBadge: (theme: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '2px 6px',
+    borderRadius: '4px',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    fontWeight: 500,
+    backgroundColor: theme === 'dark' ? '#2a2a3e' : '#f5f5f5',
+    color: theme === 'dark' ? '#e0e0e0' : '#333',
+    border: `1px solid ${theme === 'dark' ? '#3a3a4e' : '#ddd'}`,
+  }),
+  placeholder: (theme: string): React.CSSProperties => ({
+    color: theme === 'dark' ? '#888' : '#999',
+  }),
+  message: (kind: 'error' | 'warning'): React.CSSProperties => ({
+    fontSize: '12px',
+    color: kind === 'error' ? '#e53935' : '#f57c00',
+  }),
+};
+
+// Button-like field that records a key combination (or sequence) when clicked
+export const ShortcutInput: React.FC<ShortcutInputProps> = ({
+  value,
+  onChange,
+  placeholder = 'Click to record a shortcut',
+  theme = 'light',
+  maxStrokes = 1,
+  match,
+  scope,
+  excludeId,
+  disabled = false,
+}) => {
+  const recorder = useKeyRecorder({
+    maxStrokes,
+    match,
+    scope,
+    excludeId,
+    onRecord: (_binding, keyString) => onChange?.(keyString),
+  });
+
+  const manager = useShortcutManager();
+  const platform = manager.getPlatform();
+
+  // Show the strokes recorded so far while recording, otherwise the current value
+  let shown: KeyBinding | null = null;
+  if (recorder.isRecording || recorder.error) {
+    shown = recorder.binding;
+  } else if (value) {
+    shown = parseKeyBinding(value);
+  }
+
+  const handleClick = () => {
+    if (recorder.isRecording) {
+      recorder.stop();
+    } else {
+      recorder.start();
+    }
+  };
+
+  return (
+    <div style={styles.container()}>
+      <button
+        type="button"
+        disabled={disabled}
+        aria-pressed={recorder.isRecording}
+        aria-label={recorder.isRecording ? 'Recording shortcut, press keys or Escape to cancel' : 'Record shortcut'}
+        style={styles.field(theme, recorder.isRecording)}
+        onClick={handleClick}
+      >
+        {shown ? (
+          toKeySequence(shown).map((combo, index) => (
+            <span key={index} style={styles.keyBadge(theme)}>
+              {keyCombinationToString(combo, platform)}
+            </span>
+          ))
+        ) : (
+          <span style={styles.placeholder(theme)}>
+            {recorder.isRecording ? 'Press keys... (Esc to cancel)' : placeholder}
+          </span>
+        )}
+      </button>
+      {recorder.error && (
+        <span role="alert" style={styles.message('error')}>{recorder.error}</span>
+      )}
+      {!recorder.error && recorder.conflicts.length > 0 && (
+        <span role="status" style={styles.message('warning')}>
+          Also bound to: {recorder.conflicts
+            .map(s => `${s.description || keyCombinationToString(s.keys, platform)} (${manager.getComponentLabel(s.componentId)})`)
+            .join(', ')}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ShortcutInput;
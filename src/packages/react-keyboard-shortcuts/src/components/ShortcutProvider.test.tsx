@@ -0,0 +1,82 @@
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { KeyboardShortcutManager, getShortcutManager } from '../core';
+import { useShortcut, useShortcutManager } from '../hooks';
+import { ShortcutProvider } from './ShortcutProvider';
+
+const keyDown = (init: KeyboardEventInit): void => {
+  act(() => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+  });
+};
+
+const Shortcut = ({ keys, callback }: { keys: string; callback: () => void }) => {
+  useShortcut(keys, callback);
+  return null;
+};
+
+let first: KeyboardShortcutManager;
+let second: KeyboardShortcutManager;
+
+beforeEach(() => {
+  first = new KeyboardShortcutManager({ detectPlatform: () => 'other', conflictPolicy: 'error' });
+  second = new KeyboardShortcutManager({ detectPlatform: () => 'other', conflictPolicy: 'error' });
+});
+
+afterEach(() => {
+  first.destroy();
+  second.destroy();
+});
+
+test('hooks use the nearest provider\'s manager, not the singleton', () => {
+  render(
+    <ShortcutProvider manager={first}>
+      <ShortcutProvider manager={second}>
+        <Shortcut keys="Ctrl+S" callback={jest.fn()} />
+      </ShortcutProvider>
+    </ShortcutProvider>
+  );
+
+  expect(second.getComponentIds()).toHaveLength(1);
+  expect(first.getComponentIds()).toHaveLength(0);
+  expect(getShortcutManager().getComponentIds()).toHaveLength(0);
+});
+
+test('sibling providers keep their shortcuts, scopes and conflicts apart', () => {
+  const inFirst = jest.fn();
+  const inSecond = jest.fn();
+  render(
+    <>
+      <ShortcutProvider manager={first}>
+        <Shortcut keys="Ctrl+K" callback={inFirst} />
+      </ShortcutProvider>
+      <ShortcutProvider manager={second}>
+        <Shortcut keys="Ctrl+K" callback={inSecond} />
+      </ShortcutProvider>
+    </>
+  );
+  expect(first.getConflicts()).toHaveLength(0);
+
+  act(() => {
+    first.pushScope('modal');
+  });
+  keyDown({ key: 'k', ctrlKey: true });
+  expect(inFirst).not.toHaveBeenCalled();
+  expect(inSecond).toHaveBeenCalledTimes(1);
+});
+
+test('without a manager it provides one of its own with the given options', () => {
+  let provided: KeyboardShortcutManager | null = null;
+  const Probe = () => {
+    provided = useShortcutManager();
+    return null;
+  };
+  render(
+    <ShortcutProvider options={{ detectPlatform: () => 'mac' }}>
+      <Probe />
+    </ShortcutProvider>
+  );
+
+  expect(provided).not.toBe(getShortcutManager());
+  expect(provided!.getPlatform()).toBe('mac');
+});
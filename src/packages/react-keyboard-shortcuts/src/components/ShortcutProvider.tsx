@@ -0,0 +1,40 @@
+import React, { useState, useEffect } from 'react';
+import { KeyboardShortcutManager } from '../core';
+import { ShortcutManagerContext } from '../hooks';
+import { ManagerOptions } from '../types';
+
+export interface ShortcutProviderProps {
+  // Manager to provide; one is created (and destroyed on unmount) when omitted
+  manager?: KeyboardShortcutManager;
+  // Options for the created manager, or applied to the given one
+  options?: ManagerOptions;
+  children?: React.ReactNode;
+}
+
+// Give hooks and components below an isolated manager instead of the shared singleton
+export const ShortcutProvider: React.FC<ShortcutProviderProps> = ({ manager, options, children }) => {
+  const [ownManager] = useState(() => (manager ? null : new KeyboardShortcutManager(options)));
+  const provided = manager || ownManager!;
+
+  // Apply option changes after mount (the created manager already has the initial ones)
+  const [initialOptions] = useState(options);
+  useEffect(() => {
+    if (options && (options !== initialOptions || manager)) {
+      provided.configure(options);
+    }
+  }, [provided, options, initialOptions, manager]);
+
+  // Only a manager this provider created is torn down with it
+  useEffect(() => {
+    if (!ownManager) return;
+    return () => ownManager.destroy();
+  }, [ownManager]);
+
+  return (
+    <ShortcutManagerContext.Provider value={provided}>
+      {children}
+    </ShortcutManagerContext.Provider>
+  );
+};
+
+export default ShortcutProvider;
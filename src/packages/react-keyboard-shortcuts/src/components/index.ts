@@ -2,3 +2,25 @@ export {
   FloatingShortcutsButton,
   type FloatingShortcutsButtonProps,
 } from './FloatingShortcutsButton';
+export {
+  CommandPalette,
+  COMMAND_PALETTE_SCOPE,
+  type CommandPaletteProps,
+} from './CommandPalette';
+export {
+  ShortcutInput,
+  type ShortcutInputProps,
+} from './ShortcutInput';
+export {
+  ShortcutCheatSheet,
+  CHEAT_SHEET_SCOPE,
+  type ShortcutCheatSheetProps,
+} from './ShortcutCheatSheet';
+export {
+  ShortcutDebugger,
+  type ShortcutDebuggerProps,
+} from './ShortcutDebugger';
+export {
+  ShortcutProvider,
+  type ShortcutProviderProps,
+} from './ShortcutProvider';
@@ -0,0 +1,1042 @@
+import KeyboardShortcutManager, { ShortcutConflictError } from './KeyboardShortcutManager';
+import { createMemoryStorageAdapter } from './storage';
+import { ManagerEvent, ManagerOptions } from '../types';
+
+const keyDown = (init: KeyboardEventInit, target: EventTarget = window): KeyboardEvent => {
+  const event = new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+  target.dispatchEvent(event);
+  return event;
+};
+
+const keyUp = (init: KeyboardEventInit, target: EventTarget = window): KeyboardEvent => {
+  const event = new KeyboardEvent('keyup', { bubbles: true, cancelable: true, ...init });
+  target.dispatchEvent(event);
+  return event;
+};
+
+// Promise that settles when the test says so
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+// Let pending promise callbacks run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let manager: KeyboardShortcutManager;
+let events: ManagerEvent[];
+
+const createManager = (options: ManagerOptions = {}): KeyboardShortcutManager => {
+  manager?.destroy();
+  manager = new KeyboardShortcutManager({ detectPlatform: () => 'other', ...options });
+  events = [];
+  manager.subscribe(event => events.push(event));
+  return manager;
+};
+
+const eventsOfType = (type: ManagerEvent['type']) => events.filter(event => event.type === type);
+
+beforeEach(() => {
+  createManager();
+});
+
+afterEach(() => {
+  manager.destroy();
+  jest.useRealTimers();
+});
+
+describe('sequences', () => {
+  test('fires a sequence only after its last stroke', () => {
+    const callback = jest.fn();
+    manager.register('list', [{ keys: 'g g', callback }]);
+
+    const first = keyDown({ key: 'g' });
+    expect(callback).not.toHaveBeenCalled();
+    expect(first.defaultPrevented).toBe(true);
+    expect(manager.isSequencePending()).toBe(true);
+
+    keyDown({ key: 'g' });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(manager.isSequencePending()).toBe(false);
+  });
+
+  test('a binding that is a prefix of a sequence fires on timeout', () => {
+    jest.useFakeTimers();
+    const prefix = jest.fn();
+    const sequence = jest.fn();
+    manager.register('list', [
+      { keys: 'g', callback: prefix },
+      { keys: 'g g', callback: sequence },
+    ]);
+
+    keyDown({ key: 'g' });
+    expect(prefix).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(prefix).toHaveBeenCalledTimes(1);
+    expect(sequence).not.toHaveBeenCalled();
+  });
+
+  test('completing the sequence wins over its prefix', () => {
+    const prefix = jest.fn();
+    const sequence = jest.fn();
+    manager.register('list', [
+      { keys: 'g', callback: prefix },
+      { keys: 'g g', callback: sequence },
+    ]);
+
+    keyDown({ key: 'g' });
+    keyDown({ key: 'g' });
+    expect(sequence).toHaveBeenCalledTimes(1);
+    expect(prefix).not.toHaveBeenCalled();
+  });
+
+  test('a broken sequence settles its prefix and handles the key as a fresh stroke', () => {
+    const prefix = jest.fn();
+    const other = jest.fn();
+    manager.register('list', [
+      { keys: 'g', callback: prefix },
+      { keys: 'g g', callback: jest.fn() },
+      { keys: 'j', callback: other },
+    ]);
+
+    keyDown({ key: 'g' });
+    keyDown({ key: 'j' });
+    expect(prefix).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledTimes(1);
+    expect(manager.isSequencePending()).toBe(false);
+  });
+
+  test('modifier presses between strokes keep the sequence pending', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+K Ctrl+C', callback }]);
+
+    keyDown({ key: 'k', ctrlKey: true });
+    keyDown({ key: 'Control', ctrlKey: true });
+    keyDown({ key: 'c', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('scopes', () => {
+  test('an exclusive scope shadows everything below it until popped', () => {
+    const page = jest.fn();
+    const modal = jest.fn();
+    manager.register('page', [{ keys: 'Escape', callback: page }]);
+    manager.register('modal', [{ keys: 'Escape', callback: modal, options: { scope: 'modal' } }]);
+
+    keyDown({ key: 'Escape' });
+    expect(page).toHaveBeenCalledTimes(1);
+    expect(modal).not.toHaveBeenCalled();
+
+    manager.pushScope('modal');
+    keyDown({ key: 'Escape' });
+    expect(modal).toHaveBeenCalledTimes(1);
+    expect(page).toHaveBeenCalledTimes(1);
+
+    manager.popScope('modal');
+    keyDown({ key: 'Escape' });
+    expect(page).toHaveBeenCalledTimes(2);
+  });
+
+  test('a non-exclusive scope adds to the layers below', () => {
+    const page = jest.fn();
+    const panel = jest.fn();
+    manager.register('page', [{ keys: 'j', callback: page }]);
+    manager.register('panel', [{ keys: 'k', callback: panel, options: { scope: 'panel' } }]);
+
+    manager.pushScope('panel', { exclusive: false });
+    keyDown({ key: 'j' });
+    keyDown({ key: 'k' });
+    expect(page).toHaveBeenCalledTimes(1);
+    expect(panel).toHaveBeenCalledTimes(1);
+  });
+
+  test('isScopeActive can leave an overlay out', () => {
+    manager.pushScope('overlay');
+    expect(manager.isScopeActive()).toBe(false);
+    expect(manager.isScopeActive(undefined, ['overlay'])).toBe(true);
+  });
+});
+
+describe('conflict policies', () => {
+  test('allow: both register and the first registered shortcut handles the key', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+K', callback: first }]);
+    manager.register('search', [{ keys: 'Ctrl+K', callback: second }]);
+
+    keyDown({ key: 'k', ctrlKey: true });
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).not.toHaveBeenCalled();
+    expect(eventsOfType('conflict')).toHaveLength(1);
+    expect(manager.getConflicts()).toHaveLength(1);
+  });
+
+  test('returning false passes the key press on', () => {
+    const first = jest.fn(() => false);
+    const second = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+K', callback: first }]);
+    manager.register('search', [{ keys: 'Ctrl+K', callback: second }]);
+
+    keyDown({ key: 'k', ctrlKey: true });
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  test('priority beats registration order', () => {
+    const low = jest.fn();
+    const high = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+K', callback: low }]);
+    manager.register('search', [{ keys: 'Ctrl+K', callback: high, options: { priority: 1 } }]);
+
+    keyDown({ key: 'k', ctrlKey: true });
+    expect(high).toHaveBeenCalledTimes(1);
+    expect(low).not.toHaveBeenCalled();
+  });
+
+  test('warn: logs the components involved', () => {
+    createManager({ conflictPolicy: 'warn' });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    manager.registerComponent('search', { label: 'Search bar' });
+    manager.register('editor', [{ keys: 'Ctrl+K', callback: jest.fn() }]);
+    manager.register('search', [{ keys: 'Ctrl+K', callback: jest.fn() }]);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('Search bar');
+    warn.mockRestore();
+  });
+
+  test('error: throws and leaves nothing registered', () => {
+    createManager({ conflictPolicy: 'error' });
+    manager.register('editor', [{ keys: 'Ctrl+K', callback: jest.fn() }]);
+
+    expect(() => manager.register('search', [
+      { keys: 'Ctrl+F', callback: jest.fn() },
+      { keys: 'Ctrl+K', callback: jest.fn() },
+    ])).toThrow(ShortcutConflictError);
+    expect(manager.getComponentKeys('search')).toHaveLength(0);
+  });
+
+  test('last-wins: the latest registration handles the key', () => {
+    createManager({ conflictPolicy: 'last-wins' });
+    const first = jest.fn(() => false);
+    const second = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+K', callback: first }]);
+    manager.register('search', [{ keys: 'Ctrl+K', callback: second }]);
+
+    keyDown({ key: 'k', ctrlKey: true });
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(first).not.toHaveBeenCalled();
+  });
+
+  test('shortcuts in different scopes or on different targets do not conflict', () => {
+    const row = document.createElement('li');
+    manager.register('editor', [{ keys: 'Enter', callback: jest.fn() }]);
+    manager.register('dialog', [{ keys: 'Enter', callback: jest.fn(), options: { scope: 'dialog' } }]);
+    manager.register('row', [{ keys: 'Enter', callback: jest.fn(), options: { target: row } }]);
+
+    expect(eventsOfType('conflict')).toHaveLength(0);
+  });
+});
+
+describe('element-scoped shortcuts', () => {
+  let panel: HTMLDivElement;
+  let inside: HTMLButtonElement;
+  let outside: HTMLButtonElement;
+
+  beforeEach(() => {
+    panel = document.createElement('div');
+    inside = document.createElement('button');
+    outside = document.createElement('button');
+    panel.appendChild(inside);
+    document.body.append(panel, outside);
+  });
+
+  afterEach(() => {
+    panel.remove();
+    outside.remove();
+  });
+
+  test('fires only for presses inside its target', () => {
+    const callback = jest.fn();
+    manager.register('panel', [{ keys: 'Enter', callback, options: { target: { current: panel } } }]);
+
+    keyDown({ key: 'Enter' }, outside);
+    expect(callback).not.toHaveBeenCalled();
+    expect(eventsOfType('skipped').map(event => event.reason)).toEqual(['target']);
+
+    keyDown({ key: 'Enter' }, inside);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('components can bind the same key to different elements', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    manager.register('panel', [{ keys: 'Enter', callback: first, options: { target: panel } }]);
+    manager.register('toolbar', [{ keys: 'Enter', callback: second, options: { target: outside } }]);
+
+    keyDown({ key: 'Enter' }, inside);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).not.toHaveBeenCalled();
+
+    keyDown({ key: 'Enter' }, outside);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(eventsOfType('conflict')).toHaveLength(0);
+  });
+
+  test('an element-scoped shortcut runs before a global one', () => {
+    const global = jest.fn();
+    const scoped = jest.fn();
+    manager.register('page', [{ keys: 'Enter', callback: global }]);
+    manager.register('panel', [{ keys: 'Enter', callback: scoped, options: { target: panel } }]);
+
+    keyDown({ key: 'Enter' }, inside);
+    expect(scoped).toHaveBeenCalledTimes(1);
+    expect(global).not.toHaveBeenCalled();
+
+    keyDown({ key: 'Enter' }, outside);
+    expect(global).toHaveBeenCalledTimes(1);
+  });
+
+  test('focusWithin also requires focus inside the target', () => {
+    const callback = jest.fn();
+    manager.register('panel', [{ keys: 'Enter', callback, options: { target: panel, focusWithin: true } }]);
+
+    outside.focus();
+    keyDown({ key: 'Enter' }, inside);
+    expect(callback).not.toHaveBeenCalled();
+
+    inside.focus();
+    keyDown({ key: 'Enter' }, inside);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('input fields', () => {
+  let input: HTMLInputElement;
+
+  beforeEach(() => {
+    input = document.createElement('input');
+    document.body.appendChild(input);
+  });
+
+  afterEach(() => {
+    input.remove();
+  });
+
+  test('shortcuts without modifiers are ignored while typing', () => {
+    const plain = jest.fn();
+    const withModifier = jest.fn();
+    manager.register('editor', [
+      { keys: 'j', callback: plain },
+      { keys: 'Ctrl+S', callback: withModifier },
+    ]);
+
+    keyDown({ key: 'j' }, input);
+    keyDown({ key: 's', ctrlKey: true }, input);
+    expect(plain).not.toHaveBeenCalled();
+    expect(withModifier).toHaveBeenCalledTimes(1);
+    expect(eventsOfType('skipped').map(event => event.reason)).toEqual(['editable']);
+  });
+
+  test('allowIn decides per shortcut', () => {
+    const always = jest.fn();
+    const never = jest.fn();
+    manager.register('editor', [
+      { keys: 'Escape', callback: always, options: { allowIn: 'always' } },
+      { keys: 'Ctrl+B', callback: never, options: { allowIn: 'never' } },
+    ]);
+
+    keyDown({ key: 'Escape' }, input);
+    keyDown({ key: 'b', ctrlKey: true }, input);
+    expect(always).toHaveBeenCalledTimes(1);
+    expect(never).not.toHaveBeenCalled();
+  });
+});
+
+describe('modifiers', () => {
+  test('Ctrl and Meta are matched strictly', () => {
+    const ctrl = jest.fn();
+    const meta = jest.fn();
+    manager.register('editor', [
+      { keys: 'Ctrl+S', callback: ctrl },
+      { keys: 'Meta+S', callback: meta },
+    ]);
+
+    keyDown({ key: 's', metaKey: true });
+    expect(ctrl).not.toHaveBeenCalled();
+    expect(meta).toHaveBeenCalledTimes(1);
+
+    keyDown({ key: 's', ctrlKey: true, metaKey: true });
+    keyDown({ key: 'S', ctrlKey: true, shiftKey: true });
+    expect(ctrl).not.toHaveBeenCalled();
+
+    keyDown({ key: 's', ctrlKey: true });
+    expect(ctrl).toHaveBeenCalledTimes(1);
+    expect(meta).toHaveBeenCalledTimes(1);
+  });
+
+  test('Mod is Ctrl outside macOS', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Mod+S', callback }]);
+
+    keyDown({ key: 's', metaKey: true });
+    expect(callback).not.toHaveBeenCalled();
+    keyDown({ key: 's', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('Mod is Cmd on macOS', () => {
+    createManager({ detectPlatform: () => 'mac' });
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Mod+S', callback }]);
+
+    keyDown({ key: 's', ctrlKey: true });
+    expect(callback).not.toHaveBeenCalled();
+    keyDown({ key: 's', metaKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('punctuation matches without naming the Shift needed to type it', () => {
+    const callback = jest.fn();
+    manager.register('help', [{ keys: '?', callback }]);
+
+    keyDown({ key: '?', code: 'Slash', shiftKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('match modes', () => {
+  // A German layout swaps Y and Z
+  const germanZ = { key: 'z', code: 'KeyY' };
+  const germanY = { key: 'y', code: 'KeyZ' };
+
+  test('key mode matches the character produced', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+Z', callback }]);
+
+    keyDown({ ...germanY, ctrlKey: true });
+    expect(callback).not.toHaveBeenCalled();
+    keyDown({ ...germanZ, ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('code mode matches the physical key', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+Z', callback, options: { match: 'code' } }]);
+
+    keyDown({ ...germanZ, ctrlKey: true });
+    expect(callback).not.toHaveBeenCalled();
+    keyDown({ ...germanY, ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('the manager default applies to shortcuts that do not set a mode', () => {
+    createManager({ match: 'code' });
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+Z', callback }]);
+
+    keyDown({ ...germanY, ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('physical key tokens match by code in key mode', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Alt+KeyS', callback }]);
+
+    // Option+S produces 'ß' on macOS
+    keyDown({ key: 'ß', code: 'KeyS', altKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('keyup and hold triggers', () => {
+  test('keyup shortcuts fire on release only', () => {
+    const callback = jest.fn();
+    manager.register('player', [{ keys: 'Space', callback, options: { trigger: 'keyup' } }]);
+
+    keyDown({ key: ' ', code: 'Space' });
+    expect(callback).not.toHaveBeenCalled();
+    keyUp({ key: ' ', code: 'Space' });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0].type).toBe('keyup');
+  });
+
+  test('a keyup shortcut cancels the default of its keydown', () => {
+    manager.register('editor', [
+      { keys: 'Ctrl+S', callback: jest.fn(), options: { trigger: 'keyup' } },
+      { keys: 'Ctrl+O', callback: jest.fn(), options: { trigger: 'keyup', preventDefault: false } },
+    ]);
+
+    expect(keyDown({ key: 's', ctrlKey: true }).defaultPrevented).toBe(true);
+    expect(keyDown({ key: 'o', ctrlKey: true }).defaultPrevented).toBe(false);
+    expect(keyDown({ key: 'p', ctrlKey: true }).defaultPrevented).toBe(false);
+    expect(eventsOfType('miss')).toHaveLength(1);
+  });
+
+  test('hold shortcuts fire on press, ignore repeats and report the release', () => {
+    const callback = jest.fn();
+    const onRelease = jest.fn();
+    manager.register('map', [{ keys: 'Shift+M', callback, options: { trigger: 'hold', onRelease } }]);
+
+    keyDown({ key: 'M', code: 'KeyM', shiftKey: true });
+    keyDown({ key: 'M', code: 'KeyM', shiftKey: true, repeat: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(onRelease).not.toHaveBeenCalled();
+
+    const release = keyUp({ key: 'M', code: 'KeyM', shiftKey: true });
+    expect(onRelease).toHaveBeenCalledTimes(1);
+    expect(onRelease.mock.calls[0][0].event).toBe(release);
+    expect(onRelease.mock.calls[0][0].duration).toBeGreaterThanOrEqual(0);
+  });
+
+  test('losing window focus ends a hold', () => {
+    const onRelease = jest.fn();
+    manager.register('map', [{ keys: 'M', callback: jest.fn(), options: { trigger: 'hold', onRelease } }]);
+
+    keyDown({ key: 'm', code: 'KeyM' });
+    window.dispatchEvent(new Event('blur'));
+    expect(onRelease).toHaveBeenCalledWith(expect.objectContaining({ event: null }));
+  });
+
+  test('repeat: false ignores auto-repeat keydowns', () => {
+    const callback = jest.fn();
+    manager.register('list', [{ keys: 'ArrowDown', callback, options: { repeat: false } }]);
+
+    keyDown({ key: 'ArrowDown' });
+    keyDown({ key: 'ArrowDown', repeat: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('rebinding', () => {
+  test('an override survives the component registering again', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+S', callback }]);
+    manager.rebind('editor', 'Ctrl+S', 'Ctrl+Alt+S');
+
+    // Unmount and mount again
+    manager.clearComponent('editor');
+    manager.register('editor', [{ keys: 'Ctrl+S', callback }]);
+
+    keyDown({ key: 's', ctrlKey: true });
+    expect(callback).not.toHaveBeenCalled();
+    keyDown({ key: 's', ctrlKey: true, altKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(manager.getBindingOverrides()).toEqual({ editor: { 'Ctrl+S': 'Ctrl+Alt+S' } });
+  });
+
+  test('resetBinding restores the default keys', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+S', callback }]);
+    manager.rebind('editor', 'Ctrl+S', 'Ctrl+Alt+S');
+    manager.resetBinding('editor', 'Ctrl+S');
+
+    keyDown({ key: 's', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(manager.getBindingOverrides()).toEqual({});
+  });
+
+  test('a \'*\' rebind re-keys mounted components without their own override', () => {
+    const editor = jest.fn();
+    const search = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+F', callback: editor, options: { priority: 1 } }]);
+    manager.register('search', [{ keys: 'Ctrl+F', callback: search }]);
+    manager.rebind('search', 'Ctrl+F', 'Ctrl+Alt+F');
+
+    manager.rebind('*', 'Ctrl+F', 'Ctrl+Shift+F');
+    keyDown({ key: 'F', ctrlKey: true, shiftKey: true });
+    expect(editor).toHaveBeenCalledTimes(1);
+    keyDown({ key: 'f', ctrlKey: true, altKey: true });
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(eventsOfType('rebind').map(event => event.componentId)).toEqual(['search', 'editor']);
+
+    manager.resetBinding('*', 'Ctrl+F');
+    keyDown({ key: 'f', ctrlKey: true });
+    expect(editor).toHaveBeenCalledTimes(2);
+  });
+
+  test('overrides are saved to storage and loaded by a new manager', async () => {
+    const storage = createMemoryStorageAdapter();
+    createManager({ storage });
+    manager.register('editor', [{ keys: 'Ctrl+S', callback: jest.fn() }]);
+    manager.rebind('editor', 'Ctrl+S', 'Ctrl+Alt+S');
+    await flush();
+
+    createManager({ storage });
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+S', callback }]);
+
+    keyDown({ key: 's', ctrlKey: true, altKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('commands', () => {
+  test('executeCommand runs a command by ID', () => {
+    const handler = jest.fn();
+    manager.registerCommand('file.save', handler, { title: 'Save' });
+
+    expect(manager.executeCommand('file.save', { force: true })).toBe(true);
+    expect(handler).toHaveBeenCalledWith({ force: true }, null);
+  });
+
+  test('executeCommand returns false for an unknown ID or a handler returning false', () => {
+    manager.registerCommand('file.close', () => false);
+
+    expect(manager.executeCommand('file.print')).toBe(false);
+    expect(manager.executeCommand('file.close')).toBe(false);
+  });
+
+  test('a bound shortcut calls the command registered when it fires', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+S', command: 'file.save', args: 'all' }]);
+    manager.registerCommand('file.save', first);
+
+    const event = keyDown({ key: 's', ctrlKey: true });
+    expect(first).toHaveBeenCalledWith('all', event);
+
+    manager.registerCommand('file.save', second);
+    keyDown({ key: 's', ctrlKey: true });
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(manager.getCommandBindings('file.save')).toHaveLength(1);
+  });
+});
+
+describe('aria-keyshortcuts', () => {
+  test('targets get the attribute after registration settles', async () => {
+    const button = document.createElement('button');
+    const [id] = manager.register('toolbar', [{ keys: 'Mod+B', callback: jest.fn(), options: { target: button } }]);
+
+    await Promise.resolve();
+    expect(button.getAttribute('aria-keyshortcuts')).toBe('Control+B');
+
+    manager.deregisterById(id);
+    await Promise.resolve();
+    expect(button.hasAttribute('aria-keyshortcuts')).toBe(false);
+  });
+});
+
+describe('attached targets', () => {
+  test('an attached iframe window is listened to until detached', () => {
+    const iframe = document.createElement('iframe');
+    document.body.appendChild(iframe);
+    const frameWindow = iframe.contentWindow!;
+    const callback = jest.fn();
+    manager.register('preview', [{ keys: 'Ctrl+S', callback }]);
+
+    keyDown({ key: 's', ctrlKey: true }, frameWindow.document.body);
+    expect(callback).not.toHaveBeenCalled();
+
+    const detach = manager.attachTarget(frameWindow);
+    expect(manager.getAttachedTargets()).toEqual([frameWindow]);
+    keyDown({ key: 's', ctrlKey: true }, frameWindow.document.body);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    detach();
+    keyDown({ key: 's', ctrlKey: true }, frameWindow.document.body);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(manager.getAttachedTargets()).toHaveLength(0);
+    iframe.remove();
+  });
+
+  test('an attached document is listened to until detached', () => {
+    const popup = document.implementation.createHTMLDocument('popup');
+    const callback = jest.fn();
+    manager.register('popup', [{ keys: 'Escape', callback }]);
+
+    manager.attachTarget(popup);
+    keyDown({ key: 'Escape' }, popup.body);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    manager.detachTarget(popup);
+    keyDown({ key: 'Escape' }, popup.body);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('a press reaching both the window and an attached target is dispatched once', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+S', callback }]);
+    manager.attachTarget(document);
+
+    keyDown({ key: 's', ctrlKey: true }, document.body);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  describe('shadow roots', () => {
+    let host: HTMLDivElement;
+
+    beforeEach(() => {
+      host = document.createElement('div');
+      document.body.appendChild(host);
+    });
+
+    afterEach(() => {
+      host.remove();
+    });
+
+    test('presses from an open shadow root are judged by their real origin', () => {
+      const input = document.createElement('input');
+      host.attachShadow({ mode: 'open' }).appendChild(input);
+      const plain = jest.fn();
+      const scoped = jest.fn();
+      manager.register('editor', [
+        { keys: 'j', callback: plain },
+        { keys: 'Ctrl+Enter', callback: scoped, options: { target: host } },
+      ]);
+
+      keyDown({ key: 'j', composed: true }, input);
+      expect(plain).not.toHaveBeenCalled();
+      expect(eventsOfType('skipped').map(event => event.reason)).toEqual(['editable']);
+
+      keyDown({ key: 'Enter', ctrlKey: true, composed: true }, input);
+      expect(scoped).toHaveBeenCalledTimes(1);
+    });
+
+    test('a closed shadow root is reached once attached', () => {
+      const button = document.createElement('button');
+      const shadowRoot = host.attachShadow({ mode: 'closed' });
+      shadowRoot.appendChild(button);
+      const callback = jest.fn();
+      manager.register('widget', [{ keys: 'Enter', callback, options: { target: host } }]);
+
+      keyDown({ key: 'Enter' }, button);
+      expect(callback).not.toHaveBeenCalled();
+
+      manager.attachTarget(shadowRoot);
+      keyDown({ key: 'Enter' }, button);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe('dispatch events', () => {
+  test('trigger reports the shortcut, the key press and whether its default was prevented', () => {
+    const [saveId] = manager.register('editor', [
+      { keys: 'Ctrl+S', callback: jest.fn(), options: { scope: 'editor' } },
+      { keys: 'Ctrl+P', callback: jest.fn(), options: { preventDefault: false } },
+    ]);
+    manager.pushScope('editor', { exclusive: false });
+
+    const save = keyDown({ key: 's', ctrlKey: true });
+    keyDown({ key: 'p', ctrlKey: true });
+    const [saved, printed] = eventsOfType('trigger');
+    expect(saved).toMatchObject({
+      componentId: 'editor',
+      keys: ['Ctrl+S'],
+      scope: 'editor',
+      keyboardEvent: save,
+      defaultPrevented: true,
+    });
+    expect(saved.shortcut?.id).toBe(saveId);
+    expect(printed.defaultPrevented).toBe(false);
+  });
+
+  test('miss reports presses no shortcut matched, but not bare modifiers', () => {
+    manager.register('editor', [{ keys: 'Ctrl+S', callback: jest.fn() }]);
+
+    keyDown({ key: 'Control', ctrlKey: true });
+    const quit = keyDown({ key: 'q', ctrlKey: true });
+    expect(eventsOfType('miss')).toEqual([
+      expect.objectContaining({ componentId: '', keys: ['Ctrl+Q'], keyboardEvent: quit }),
+    ]);
+  });
+
+  test('skipped reports matching shortcuts that could not run, with the reason', () => {
+    const input = document.createElement('input');
+    const panel = document.createElement('div');
+    document.body.append(input, panel);
+    manager.register('editor', [
+      { keys: 'Ctrl+D', callback: jest.fn(), options: { enabled: false } },
+      { keys: 'Ctrl+E', callback: jest.fn(), options: { target: panel } },
+      { keys: 'j', callback: jest.fn() },
+    ]);
+
+    const disabled = keyDown({ key: 'd', ctrlKey: true });
+    keyDown({ key: 'e', ctrlKey: true });
+    keyDown({ key: 'j' }, input);
+    const skipped = eventsOfType('skipped');
+    expect(skipped.map(event => event.reason)).toEqual(['disabled', 'target', 'editable']);
+    expect(skipped.map(event => event.keys)).toEqual([['Ctrl+D'], ['Ctrl+E'], ['J']]);
+    expect(skipped[0].keyboardEvent).toBe(disabled);
+    // A skipped shortcut isn't also a miss
+    expect(eventsOfType('miss')).toHaveLength(0);
+
+    input.remove();
+    panel.remove();
+  });
+
+  test('error reports a throwing callback and rethrows', () => {
+    const error = new Error('save failed');
+    const [id] = manager.register('editor', [{ keys: 'Ctrl+S', callback: () => { throw error; } }]);
+    const event = new KeyboardEvent('keydown', { key: 's', ctrlKey: true });
+
+    expect(() => manager.runShortcut(id, event)).toThrow(error);
+    expect(eventsOfType('error')).toEqual([
+      expect.objectContaining({ componentId: 'editor', keys: ['Ctrl+S'], keyboardEvent: event, error }),
+    ]);
+  });
+});
+
+describe('debug log', () => {
+  test('records a verdict for every registered shortcut', () => {
+    createManager({ debug: true });
+    const panel = document.createElement('div');
+    manager.register('editor', [
+      { keys: 'Ctrl+S', callback: jest.fn() },
+      { keys: 'Ctrl+O', callback: jest.fn() },
+      { keys: 'Ctrl+S', callback: jest.fn(), options: { target: panel } },
+      { keys: 'Ctrl+S', callback: jest.fn(), options: { scope: 'dialog' } },
+      { keys: 'Ctrl+S', callback: jest.fn(), options: { when: 'editorFocused' } },
+    ]);
+
+    keyDown({ key: 's', ctrlKey: true });
+    const [record] = manager.getDebugLog();
+    expect(record).toMatchObject({ keyString: 'Ctrl+S', target: 'window', stroke: 0, suspended: false });
+    expect(record.candidates.map(candidate => [candidate.accepted, candidate.reason])).toEqual([
+      [true, 'fired'],
+      [false, 'key'],
+      [false, 'target'],
+      [false, 'scope'],
+      [false, 'when'],
+    ]);
+    expect(eventsOfType('debug').map(event => event.debug)).toEqual([record]);
+  });
+
+  test('presses while suspended are recorded without verdicts', () => {
+    const stop = manager.startDebugging();
+    manager.register('editor', [{ keys: 'Ctrl+S', callback: jest.fn() }]);
+    const resume = manager.suspend();
+
+    keyDown({ key: 's', ctrlKey: true });
+    resume();
+    stop();
+    keyDown({ key: 's', ctrlKey: true });
+
+    const log = manager.getDebugLog();
+    expect(log).toHaveLength(1);
+    expect(log[0].suspended).toBe(true);
+    expect(log[0].candidates).toEqual([]);
+  });
+
+  test('keeps the latest 50 presses, each with its own ID', () => {
+    manager.startDebugging();
+    manager.register('editor', [{ keys: 'Ctrl+S', callback: jest.fn() }]);
+    for (let i = 0; i < 55; i++) {
+      keyDown({ key: 'x' });
+    }
+
+    const ids = manager.getDebugLog().map(record => record.id);
+    expect(ids).toHaveLength(50);
+    expect(ids[0]).toBe(6);
+    expect(ids[49]).toBe(55);
+    expect(new Set(ids).size).toBe(50);
+  });
+});
+
+describe('shortcut IDs', () => {
+  test('each ID addresses one of several shortcuts with the same keys', () => {
+    const list = jest.fn();
+    const grid = jest.fn();
+    const [listId, gridId] = manager.register('views', [
+      { keys: 'Ctrl+K', callback: list, options: { scope: 'list' } },
+      { keys: 'Ctrl+K', callback: grid, options: { scope: 'grid' } },
+    ]);
+    manager.pushScope('list', { exclusive: false });
+    manager.pushScope('grid', { exclusive: false });
+
+    manager.disableById(listId);
+    keyDown({ key: 'k', ctrlKey: true });
+    expect(list).not.toHaveBeenCalled();
+    expect(grid).toHaveBeenCalledTimes(1);
+
+    expect(manager.updateById(gridId, { keys: 'Ctrl+G', description: 'Grid' })).toBe(true);
+    expect(manager.getShortcutById(gridId)?.description).toBe('Grid');
+    manager.deregisterById(listId);
+    expect(manager.getComponentKeys('views').map(s => s.id)).toEqual([gridId]);
+    expect(manager.updateById(listId, { description: 'List' })).toBe(false);
+  });
+
+  test('an update rejected by the error policy changes nothing', () => {
+    createManager({ conflictPolicy: 'error' });
+    const callback = jest.fn();
+    const [id] = manager.register('editor', [{ keys: 'Ctrl+S', callback, options: { description: 'Save' } }]);
+    manager.register('files', [{ keys: 'Ctrl+O', callback: jest.fn() }]);
+
+    expect(() => manager.updateById(id, {
+      keys: 'Ctrl+O',
+      callback: jest.fn(),
+      description: 'Open',
+      when: 'editorFocused',
+    })).toThrow(ShortcutConflictError);
+
+    const shortcut = manager.getShortcutById(id);
+    expect(shortcut?.description).toBe('Save');
+    expect(shortcut?.when).toBeUndefined();
+    keyDown({ key: 's', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('when clauses', () => {
+  test('a shortcut fires only while its clause holds', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Ctrl+D', callback, options: { when: 'editorFocused && !readOnly' } }]);
+
+    keyDown({ key: 'd', ctrlKey: true });
+    expect(callback).not.toHaveBeenCalled();
+    expect(eventsOfType('skipped').map(event => event.reason)).toEqual(['when']);
+
+    manager.setContext('editorFocused', true);
+    keyDown({ key: 'd', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    manager.setContext('readOnly', true);
+    keyDown({ key: 'd', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('comparisons use context values', () => {
+    const callback = jest.fn();
+    manager.register('editor', [{ keys: 'Escape', callback, options: { when: "mode == 'insert'" } }]);
+    const [shortcut] = manager.getComponentKeys('editor');
+
+    manager.setContext('mode', 'normal');
+    expect(manager.isShortcutActive(shortcut)).toBe(false);
+    manager.setContext('mode', 'insert');
+    expect(manager.isShortcutActive(shortcut)).toBe(true);
+  });
+
+  test('an invalid clause fails the whole registration', () => {
+    expect(() => manager.register('editor', [
+      { keys: 'Ctrl+S', callback: jest.fn() },
+      { keys: 'Ctrl+D', callback: jest.fn(), options: { when: 'a &&' } },
+    ])).toThrow(/Invalid when clause/);
+    expect(manager.getComponentKeys('editor')).toHaveLength(0);
+  });
+
+  test('updateById replaces the clause', () => {
+    const callback = jest.fn();
+    const [id] = manager.register('editor', [{ keys: 'Ctrl+D', callback, options: { when: 'editorFocused' } }]);
+
+    manager.updateById(id, { when: '' });
+    keyDown({ key: 'd', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('runShortcut respects the clause', () => {
+    const callback = jest.fn();
+    const [id] = manager.register('editor', [{ keys: 'Ctrl+D', callback, options: { when: 'editorFocused' } }]);
+
+    expect(manager.runShortcut(id)).toBe(false);
+    manager.setContext('editorFocused', true);
+    expect(manager.runShortcut(id)).toBe(true);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('async callbacks', () => {
+  test('ignore: presses while a call is pending are skipped', async () => {
+    const run = deferred();
+    const callback = jest.fn(() => run.promise);
+    const [id] = manager.register('editor', [{ keys: 'Ctrl+S', callback }]);
+
+    keyDown({ key: 's', ctrlKey: true });
+    const second = keyDown({ key: 's', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(manager.isRunning(id)).toBe(true);
+    // The shortcut still owns the press
+    expect(second.defaultPrevented).toBe(true);
+    expect(eventsOfType('skipped').map(event => event.reason)).toEqual(['running']);
+
+    run.resolve();
+    await flush();
+    expect(manager.isRunning(id)).toBe(false);
+    expect(eventsOfType('running').map(event => event.running)).toEqual([true, false]);
+
+    keyDown({ key: 's', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  test('queue: presses while a call is pending run in turn', async () => {
+    const runs = [deferred(), deferred()];
+    let calls = 0;
+    const callback = jest.fn(() => runs[calls++].promise);
+    manager.register('editor', [{ keys: 'Ctrl+S', callback, options: { concurrency: 'queue' } }]);
+
+    keyDown({ key: 's', ctrlKey: true });
+    keyDown({ key: 's', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    runs[0].resolve();
+    await flush();
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    runs[1].resolve();
+    await flush();
+    expect(manager.getRunningShortcuts()).toHaveLength(0);
+  });
+
+  test('parallel: every press calls the callback', () => {
+    const callback = jest.fn(() => deferred().promise);
+    manager.register('editor', [{ keys: 'Ctrl+S', callback, options: { concurrency: 'parallel' } }]);
+
+    keyDown({ key: 's', ctrlKey: true });
+    keyDown({ key: 's', ctrlKey: true });
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  test('deregistering aborts the pending call and drops queued ones', async () => {
+    const run = deferred();
+    let signal: AbortSignal | undefined;
+    const callback = jest.fn((_event: KeyboardEvent, context: { signal: AbortSignal }) => {
+      signal = context.signal;
+      return run.promise;
+    });
+    const [id] = manager.register('editor', [{ keys: 'Ctrl+S', callback, options: { concurrency: 'queue' } }]);
+
+    keyDown({ key: 's', ctrlKey: true });
+    keyDown({ key: 's', ctrlKey: true });
+    manager.deregisterById(id);
+    expect(signal?.aborted).toBe(true);
+    expect(manager.isRunning(id)).toBe(false);
+
+    // Rejecting after cancellation is expected and not reported
+    run.reject(new Error('AbortError'));
+    await flush();
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(eventsOfType('error')).toHaveLength(0);
+  });
+
+  test('a rejection is reported as an error event', async () => {
+    const run = deferred();
+    manager.register('editor', [{ keys: 'Ctrl+S', callback: () => run.promise }]);
+
+    keyDown({ key: 's', ctrlKey: true });
+    const error = new Error('save failed');
+    run.reject(error);
+    await flush();
+
+    expect(eventsOfType('error').map(event => event.error)).toEqual([error]);
+    expect(manager.getRunningShortcuts()).toHaveLength(0);
+  });
+
+  test('runShortcut follows the concurrency policy', () => {
+    const callback = jest.fn((_event: KeyboardEvent) => deferred().promise);
+    const [id] = manager.register('editor', [{ keys: 'Ctrl+S', callback }]);
+
+    expect(manager.runShortcut(id)).toBe(true);
+    expect(manager.runShortcut(id)).toBe(false);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0].ctrlKey).toBe(true);
+  });
+});
@@ -1,24 +1,142 @@
 import {
   KeyCombination,
+  KeySequence,
+  KeyBinding,
   RegisteredShortcut,
   ComponentShortcutsMap,
   ShortcutDefinition,
+  ShortcutUpdate,
+  ShortcutHandle,
+  ContextValue,
+  WhenPredicate,
   SUPPORTED_KEYS,
   ManagerEvent,
+  ManagerEventType,
   ManagerEventListener,
+  ManagerOptions,
+  ShortcutScope,
+  PushScopeOptions,
+  ShortcutConflict,
+  ShortcutTarget,
+  ListenTarget,
+  SkipReason,
+  DebugReason,
+  DebugRecord,
+  AllowInPolicy,
+  Platform,
+  KeyMatchMode,
+  KeybindingOverrides,
+  WhenOverrides,
+  CommandHandler,
+  CommandMeta,
+  RegisteredCommand,
+  ComponentMeta,
 } from '../types';
+import { parseWhenClause } from './when';
+
+// Default max delay between strokes of a key sequence
+const DEFAULT_SEQUENCE_TIMEOUT = 1000;
+
+// Keys that only act as modifiers and never complete a stroke on their own
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+// Manager events after which aria-keyshortcuts attributes may be stale
+const ARIA_SYNC_EVENTS: ManagerEventType[] = ['register', 'deregister', 'enable', 'disable', 'clear', 'rebind', 'update'];
+
+// Events reporting what happened to a key press, rather than a change to the registry
+const DISPATCH_EVENTS: ManagerEventType[] = ['trigger', 'miss', 'skipped', 'error', 'running', 'debug'];
+
+// Key presses kept by the debug log
+const DEBUG_LOG_SIZE = 50;
+
+// Verdicts for every registered shortcut on one keydown, before dispatch settles the matching ones
+interface JudgedKeyDown {
+  stroke: number;
+  verdicts: Array<[RegisteredShortcut, DebugReason | null]>;
+}
+
+// Pending async calls of one shortcut, and key presses queued behind them
+interface ShortcutRun {
+  pending: number;
+  queue: KeyboardEvent[];
+  // Key press that started the latest call
+  event: KeyboardEvent;
+}
+
+// Check whether a manager event reports a key press (UI that lists shortcuts can ignore these)
+export const isDispatchEvent = (event: ManagerEvent): boolean => {
+  return DISPATCH_EVENTS.includes(event.type);
+};
+
+// Check whether a callback returned a promise (or any thenable)
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> => {
+  return !!value && typeof (value as PromiseLike<unknown>).then === 'function';
+};
 
 // Generate unique ID
 const generateId = (): string => {
   return `shortcut_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 };
 
+// Physical codes for characters on a US layout (letters and digits are derived)
+const CHARACTER_CODES: Record<string, string> = {
+  ' ': 'Space',
+  '-': 'Minus',
+  '=': 'Equal',
+  '[': 'BracketLeft',
+  ']': 'BracketRight',
+  '\\': 'Backslash',
+  ';': 'Semicolon',
+  "'": 'Quote',
+  ',': 'Comma',
+  '.': 'Period',
+  '/': 'Slash',
+  '`': 'Backquote',
+};
+
+// Numpad codes that don't follow the NumpadN pattern
+const NUMPAD_CODES = [
+  'NumpadAdd', 'NumpadSubtract', 'NumpadMultiply', 'NumpadDivide',
+  'NumpadDecimal', 'NumpadEnter', 'NumpadEqual',
+];
+
+// Physical code for a key value on a US layout ('z' → 'KeyZ', 'Enter' → 'Enter')
+const keyToCode = (key: string): string => {
+  if (/^[a-z]$/i.test(key)) return `Key${key.toUpperCase()}`;
+  if (/^[0-9]$/.test(key)) return `Digit${key}`;
+  return CHARACTER_CODES[key] || key;
+};
+
+// Key value a physical code produces on a US layout ('KeyZ' → 'z')
+const codeToKey = (code: string): string => {
+  const match = /^(?:Key|Digit|Numpad)([A-Z0-9])$/.exec(code);
+  if (match) return match[1].toLowerCase();
+
+  const character = Object.keys(CHARACTER_CODES).find(c => CHARACTER_CODES[c] === code);
+  return character || code;
+};
+
+// Recognize physical key tokens ("KeyZ", "digit1", "Numpad5", "BracketLeft"), case-insensitively
+const normalizeCodeName = (part: string): string | null => {
+  if (/^key[a-z]$/i.test(part)) return `Key${part.charAt(3).toUpperCase()}`;
+  if (/^(digit|numpad)[0-9]$/i.test(part)) {
+    return `${part.charAt(0).toUpperCase()}${part.slice(1, -1).toLowerCase()}${part.slice(-1)}`;
+  }
+
+  const lower = part.toLowerCase();
+  const named = [...NUMPAD_CODES, ...Object.values(CHARACTER_CODES)]
+    .filter(code => code !== 'Space')
+    .find(code => code.toLowerCase() === lower);
+  return named || null;
+};
+
 // Parse key string to KeyCombination
 export const parseKeyString = (keyString: string): KeyCombination => {
-  const parts = keyString.toLowerCase().split('+').map(p => p.trim());
+  const parts = keyString.split('+').map(p => p.trim());
   const result: KeyCombination = { key: '' };
 
-  for (const part of parts) {
+  for (const original of parts) {
+    const part = original.toLowerCase();
     switch (part) {
       case 'ctrl':
       case 'control':
@@ -31,6 +149,9 @@ export const parseKeyString = (keyString: string): KeyCombination => {
       case 'shift':
         result.shift = true;
         break;
+      case 'mod':
+        result.mod = true;
+        break;
       case 'meta':
       case 'cmd':
       case 'command':
@@ -38,15 +159,44 @@ export const parseKeyString = (keyString: string): KeyCombination => {
       case 'windows':
         result.meta = true;
         break;
-      default:
-        // Map common key names to their event.key values
-        result.key = normalizeKeyName(part);
+      default: {
+        const code = normalizeCodeName(original);
+        if (code) {
+          // Physical key: keep the US-layout value as a readable fallback
+          result.code = code;
+          result.key = codeToKey(code);
+        } else {
+          // Map common key names to their event.key values
+          result.key = normalizeKeyName(part);
+        }
+      }
     }
   }
 
   return result;
 };
 
+// Parse whitespace-separated strokes ("g g", "Ctrl+K Ctrl+C") to a KeySequence
+export const parseKeySequence = (keyString: string): KeySequence => {
+  return keyString
+    .trim()
+    .replace(/\s*\+\s*/g, '+')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(parseKeyString);
+};
+
+// Parse key string to a single combination, or a sequence if it has several strokes
+export const parseKeyBinding = (keyString: string): KeyBinding => {
+  const sequence = parseKeySequence(keyString);
+  return sequence.length === 1 ? sequence[0] : sequence;
+};
+
+// Normalize any binding to a sequence of strokes
+export const toKeySequence = (binding: KeyBinding): KeySequence => {
+  return Array.isArray(binding) ? binding : [binding];
+};
+
 // Normalize key names to match KeyboardEvent.key
 const normalizeKeyName = (key: string): string => {
   const keyMap: Record<string, string> = {
@@ -83,9 +233,58 @@ const normalizeKeyName = (key: string): string => {
   return keyMap[lowerKey] || key;
 };
 
-// Convert KeyCombination back to display string
-export const keyCombinationToString = (combo: KeyCombination): string => {
+// Labels for physical keys on the user's keyboard layout, where the browser exposes them
+let keyboardLayout: Map<string, string> | null = null;
+
+// Override the keyboard layout labels (null falls back to US-layout labels)
+export const setKeyboardLayout = (layout: Map<string, string> | null): void => {
+  keyboardLayout = layout;
+};
+
+// Load layout labels through navigator.keyboard.getLayoutMap() (Chromium only)
+export const loadKeyboardLayout = (): Promise<void> => {
+  type LayoutNavigator = Navigator & {
+    keyboard?: { getLayoutMap?: () => Promise<Iterable<[string, string]>> };
+  };
+  const keyboard = typeof navigator !== 'undefined'
+    ? (navigator as LayoutNavigator).keyboard
+    : undefined;
+  if (!keyboard?.getLayoutMap) return Promise.resolve();
+
+  return keyboard.getLayoutMap()
+    .then(layout => setKeyboardLayout(new Map(layout)))
+    .catch(() => undefined);
+};
+
+// Default platform detector based on what the browser reports
+export const detectPlatform = (): Platform => {
+  if (typeof navigator === 'undefined') return 'other';
+
+  const { userAgentData } = navigator as Navigator & { userAgentData?: { platform?: string } };
+  const platform = userAgentData?.platform || navigator.platform || navigator.userAgent;
+  return /mac|iphone|ipad|ipod/i.test(platform) ? 'mac' : 'other';
+};
+
+// Replace 'mod' with the platform's primary modifier (Meta on macOS, Ctrl elsewhere)
+export const resolveModifiers = (combo: KeyCombination, platform: Platform): KeyCombination => {
+  if (!combo.mod) return combo;
+
+  const { mod, ...rest } = combo;
+  return platform === 'mac' ? { ...rest, meta: true } : { ...rest, ctrl: true };
+};
+
+// Convert KeyCombination (or sequence) back to display string.
+// Without a platform, 'mod' is kept as "Mod" and physical keys as codes ("KeyZ") so the
+// string parses back to the same binding. With a platform, Mod is resolved and physical
+// keys show their label on the current keyboard layout.
+export const keyCombinationToString = (binding: KeyBinding, platform?: Platform): string => {
+  if (Array.isArray(binding)) {
+    return binding.map(combo => keyCombinationToString(combo, platform)).join(' ');
+  }
+
+  const combo = platform ? resolveModifiers(binding, platform) : binding;
   const parts: string[] = [];
+  if (combo.mod) parts.push('Mod');
   if (combo.ctrl) parts.push('Ctrl');
   if (combo.alt) parts.push('Alt');
   if (combo.shift) parts.push('Shift');
@@ -93,39 +292,396 @@ export const keyCombinationToString = (combo: KeyCombination): string => {
 
   // Normalize the key for display
   let displayKey = combo.key;
-  if (combo.key === ' ') displayKey = 'Space';
+  if (combo.code && !platform) displayKey = combo.code;
+  else if (combo.code && keyboardLayout?.has(combo.code)) displayKey = keyboardLayout.get(combo.code)!.toUpperCase();
+  else if (combo.key === ' ') displayKey = 'Space';
   else if (combo.key.length === 1) displayKey = combo.key.toUpperCase();
 
   parts.push(displayKey);
   return parts.join('+');
 };
 
-// Check if keyboard event matches key combination
-const matchesKeyCombination = (event: KeyboardEvent, combo: KeyCombination): boolean => {
-  const eventKey = event.key.length === 1 ? event.key.toLowerCase() : event.key;
-  const comboKey = combo.key.length === 1 ? combo.key.toLowerCase() : combo.key;
+// Format a binding for the aria-keyshortcuts attribute ("Control+Shift+P"). Returns null
+// for sequences, which the attribute can't express.
+export const toAriaKeyShortcuts = (binding: KeyBinding, platform: Platform): string | null => {
+  const sequence = toKeySequence(binding);
+  if (sequence.length !== 1) return null;
+
+  const combo = resolveModifiers(sequence[0], platform);
+  const parts: string[] = [];
+  if (combo.ctrl) parts.push('Control');
+  if (combo.alt) parts.push('Alt');
+  if (combo.shift) parts.push('Shift');
+  if (combo.meta) parts.push('Meta');
+
+  const key = keyCombinationToString({ key: combo.key, code: combo.code }, platform);
+  parts.push(key === '+' ? 'Plus' : key);
+  return parts.join('+');
+};
+
+// Build the stroke a keydown event represents (null for a lone modifier press).
+// Characters outside SUPPORTED_KEYS (e.g. Shift+/ → '?', Option+S → 'ß') are recorded
+// by physical key so the binding still matches the same press.
+export const eventToKeyCombination = (event: KeyboardEvent, mode: KeyMatchMode = 'key'): KeyCombination | null => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const combo: KeyCombination = { key: '' };
+  if (event.ctrlKey) combo.ctrl = true;
+  if (event.altKey) combo.alt = true;
+  if (event.shiftKey) combo.shift = true;
+  if (event.metaKey) combo.meta = true;
+
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const code = event.code ? normalizeCodeName(event.code) : null;
+  if (code && (mode === 'code' || (key.length === 1 && !isSupportedKeyCombination({ key })))) {
+    combo.code = code;
+    combo.key = codeToKey(code);
+  } else {
+    combo.key = key;
+  }
+  return combo;
+};
+
+// Whether a stroke uses a key from SUPPORTED_KEYS (physical keys are always supported)
+export const isSupportedKeyCombination = (combo: KeyCombination): boolean => {
+  if (combo.code) return normalizeCodeName(combo.code) !== null;
 
-  // Handle space key specially
-  const keyMatches =
-    eventKey === comboKey ||
-    (comboKey === ' ' && event.code === 'Space');
+  const key = combo.key === ' ' ? 'Space' : combo.key;
+  return (SUPPORTED_KEYS as readonly string[]).includes(key.length === 1 ? key.toLowerCase() : key);
+};
+
+// Bindings conflict when they have the same strokes (on this platform) in the same scope
+const conflictKey = (keys: KeyBinding, scope: string | undefined, platform: Platform): string => {
+  const resolved = toKeySequence(keys).map(combo => resolveModifiers(combo, platform));
+  return `${scope ?? ''}|${keyCombinationToString(resolved)}`;
+};
+
+// Conflict keys are compared on every registration, so cache them until the keys or platform change
+const conflictKeyCache: WeakMap<RegisteredShortcut, { keys: KeyBinding; platform: Platform; slot: string }> = new WeakMap();
+
+const getConflictKey = (shortcut: RegisteredShortcut, platform: Platform): string => {
+  const cached = conflictKeyCache.get(shortcut);
+  if (cached && cached.keys === shortcut.keys && cached.platform === platform) {
+    return cached.slot;
+  }
+  const slot = conflictKey(shortcut.keys, shortcut.scope, platform);
+  conflictKeyCache.set(shortcut, { keys: shortcut.keys, platform, slot });
+  return slot;
+};
+
+// Two shortcuts compete when they share strokes, scope and target element
+const occupiesSameSlot = (a: RegisteredShortcut, b: RegisteredShortcut, platform: Platform): boolean => {
+  return a.target === b.target && getConflictKey(a, platform) === getConflictKey(b, platform);
+};
+
+// Resolve a shortcut target to its element (refs may not be attached yet)
+const resolveTarget = (target: ShortcutTarget): Element | null => {
+  return 'current' in target ? target.current : target;
+};
+
+// Like Node.contains, but steps out of shadow roots to their hosts (and avoids instanceof, which fails across frames)
+const containsComposed = (element: Element, node: Node | null): boolean => {
+  let current: Node | null = node;
+  while (current) {
+    if (current === element) return true;
+    current = current.parentNode || (current.nodeType === 11 ? (current as ShadowRoot).host || null : null);
+  }
+  return false;
+};
+
+// Focused element, looking through open shadow roots
+const getDeepActiveElement = (doc: Document): Element | null => {
+  let active = doc.activeElement;
+  while (active && active.shadowRoot && active.shadowRoot.activeElement) {
+    active = active.shadowRoot.activeElement;
+  }
+  return active;
+};
+
+// Check whether an element-scoped shortcut applies to this event
+const isWithinTarget = (shortcut: RegisteredShortcut, event: KeyboardEvent): boolean => {
+  if (!shortcut.target) return true;
+
+  const element = resolveTarget(shortcut.target);
+  const origin = getEventOrigin(event) || (event.target as Node | null);
+  if (!element || !containsComposed(element, origin)) {
+    return false;
+  }
+  return !shortcut.focusWithin || containsComposed(element, getDeepActiveElement(element.ownerDocument));
+};
+
+// Order for equal priorities: element-scoped before global, inner elements before outer
+const compareTargets = (a: RegisteredShortcut, b: RegisteredShortcut): number => {
+  const elementA = a.target ? resolveTarget(a.target) : null;
+  const elementB = b.target ? resolveTarget(b.target) : null;
+  if (elementA === elementB) return 0;
+  if (!elementA) return 1;
+  if (!elementB) return -1;
+  if (elementA.contains(elementB)) return 1;
+  if (elementB.contains(elementA)) return -1;
+  return 0;
+};
+
+// ARIA roles used by custom text editors
+const EDITABLE_ROLES = ['textbox', 'searchbox', 'combobox', 'spinbutton'];
+
+// Default detector for elements that take typed input
+export const isEditableElement = (element: Element): boolean => {
+  const tag = element.tagName;
+  if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return true;
+  if ((element as HTMLElement).isContentEditable) return true;
+
+  const contentEditable = element.getAttribute('contenteditable');
+  if (contentEditable !== null && contentEditable !== 'false') return true;
+
+  return EDITABLE_ROLES.includes(element.getAttribute('role') || '');
+};
+
+// Whether a listen target is a window (same-origin frames and popups have their own Window realm)
+const isWindow = (target: ListenTarget): target is Window => {
+  return (target as Window).window === target;
+};
+
+// Innermost element the event came from, looking through open shadow roots
+const getEventOrigin = (event: KeyboardEvent): Element | null => {
+  const path = typeof event.composedPath === 'function' ? event.composedPath() : [];
+  const origin = path.length > 0 ? path[0] : event.target;
+  return origin && (origin as Node).nodeType === 1 ? origin as Element : null;
+};
 
-  const ctrlMatches = !!combo.ctrl === (event.ctrlKey || event.metaKey);
+// Apply a shortcut's allowIn policy to a key press in an editable element
+const isAllowedInEditable = (
+  policy: AllowInPolicy,
+  combo: KeyCombination,
+  event: KeyboardEvent,
+  element: Element
+): boolean => {
+  if (typeof policy === 'function') return policy(event, element);
+
+  switch (policy) {
+    case 'always':
+      return true;
+    case 'never':
+      return false;
+    default:
+      return !!(combo.ctrl || combo.alt || combo.meta || combo.mod);
+  }
+};
+
+// Why a keyboard event doesn't match a key combination, or null if it does (Ctrl and Meta are matched strictly)
+const explainKeyMismatch = (
+  event: KeyboardEvent,
+  binding: KeyCombination,
+  platform: Platform,
+  mode: KeyMatchMode
+): 'key' | 'modifiers' | null => {
+  const combo = resolveModifiers(binding, platform);
+  let keyMatches: boolean;
+  let shiftMatches = !!combo.shift === event.shiftKey;
+
+  if (combo.code || mode === 'code') {
+    // Physical position, independent of layout and of characters produced by Alt/Option
+    keyMatches = event.code === (combo.code || keyToCode(combo.key));
+  } else {
+    const eventKey = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+    const comboKey = combo.key.length === 1 ? combo.key.toLowerCase() : combo.key;
+
+    // Handle space key specially
+    keyMatches =
+      eventKey === comboKey ||
+      (comboKey === ' ' && event.code === 'Space');
+
+    // Punctuation like '?' or '+' may need Shift to type, so only check Shift if the binding names it
+    if (!combo.shift && /^[^\sa-z0-9]$/i.test(comboKey)) {
+      shiftMatches = true;
+    }
+  }
+
+  const ctrlMatches = !!combo.ctrl === event.ctrlKey;
   const altMatches = !!combo.alt === event.altKey;
-  const shiftMatches = !!combo.shift === event.shiftKey;
-  const metaMatches = combo.meta ? event.metaKey : true;
+  const metaMatches = !!combo.meta === event.metaKey;
+
+  if (!keyMatches) return 'key';
+  return ctrlMatches && altMatches && shiftMatches && metaMatches ? null : 'modifiers';
+};
+
+// Check if keyboard event matches key combination
+const matchesKeyCombination = (
+  event: KeyboardEvent,
+  binding: KeyCombination,
+  platform: Platform,
+  mode: KeyMatchMode
+): boolean => {
+  return explainKeyMismatch(event, binding, platform, mode) === null;
+};
+
+// Short CSS-like description of an event origin for debug output (e.g. 'input#search.field')
+const describeElement = (element: Element | null): string => {
+  if (!element) return 'window';
+
+  const id = element.id ? `#${element.id}` : '';
+  const classNames = typeof element.className === 'string' ? element.className.trim() : '';
+  const classes = classNames ? `.${classNames.split(/\s+/).slice(0, 2).join('.')}` : '';
+  return `${element.tagName.toLowerCase()}${id}${classes}`;
+};
+
+// Single-stroke shortcuts with trigger 'keyup' are dispatched from keyup instead of keydown
+const firesOnKeyUp = (shortcut: RegisteredShortcut): boolean => {
+  return shortcut.trigger === 'keyup' && toKeySequence(shortcut.keys).length === 1;
+};
+
+// Identify the physical key of a press so its release can be matched
+const heldKeyOf = (event: KeyboardEvent): string => event.code || event.key;
+
+// Build a keydown that would have triggered the binding, for shortcuts run outside key dispatch
+const createTriggerEvent = (binding: KeyBinding, platform: Platform): KeyboardEvent => {
+  const sequence = toKeySequence(binding);
+  const combo = resolveModifiers(sequence[sequence.length - 1], platform);
+  return new KeyboardEvent('keydown', {
+    key: combo.key,
+    code: combo.code,
+    ctrlKey: combo.ctrl,
+    altKey: combo.alt,
+    shiftKey: combo.shift,
+    metaKey: combo.meta,
+    cancelable: true,
+  });
+};
+
+// Current and default key strings of each shortcut, kept until its keys are rebound
+const keyStringCache: WeakMap<RegisteredShortcut, { keys: KeyBinding; current: string; original: string }> = new WeakMap();
+
+const getKeyStrings = (shortcut: RegisteredShortcut): { current: string; original: string } => {
+  let cached = keyStringCache.get(shortcut);
+  if (!cached || cached.keys !== shortcut.keys) {
+    cached = {
+      keys: shortcut.keys,
+      current: keyCombinationToString(shortcut.keys),
+      original: keyCombinationToString(shortcut.defaultKeys),
+    };
+    keyStringCache.set(shortcut, cached);
+  }
+  return cached;
+};
+
+// Canonical forms of key strings given to enable, disable and deregister
+const toKeyStringSet = (keyStrings: string[]): Set<string> => {
+  return new Set(keyStrings.map(keyString => keyCombinationToString(parseKeyBinding(keyString))));
+};
+
+// Check whether a shortcut's current or default binding is one of the given canonical key strings
+const matchesAnyKeyString = (shortcut: RegisteredShortcut, keyStrings: Set<string>): boolean => {
+  const { current, original } = getKeyStrings(shortcut);
+  return keyStrings.has(current) || keyStrings.has(original);
+};
 
-  return keyMatches && ctrlMatches && altMatches && shiftMatches && (combo.meta ? metaMatches : true);
+// Lookup signature of a binding's first stroke: Ctrl/Alt/Meta plus the key (or physical code).
+// Shift is left to matchesKeyCombination, as punctuation may need it to be typed.
+const strokeSignature = (binding: KeyCombination, platform: Platform, mode: KeyMatchMode): string => {
+  const combo = resolveModifiers(binding, platform);
+  const modifiers = `${combo.ctrl ? 'c' : ''}${combo.alt ? 'a' : ''}${combo.meta ? 'm' : ''}`;
+
+  if (combo.code || mode === 'code') {
+    return `${modifiers}|code:${combo.code || keyToCode(combo.key)}`;
+  }
+  return `${modifiers}|key:${combo.key.length === 1 ? combo.key.toLowerCase() : combo.key}`;
+};
+
+// Signatures of the bindings a keyboard event can match, in either match mode
+const eventSignatures = (event: KeyboardEvent): string[] => {
+  const modifiers = `${event.ctrlKey ? 'c' : ''}${event.altKey ? 'a' : ''}${event.metaKey ? 'm' : ''}`;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+  const signatures = [`${modifiers}|key:${key}`, `${modifiers}|code:${event.code}`];
+  // ' ' bindings also match the Space key when it produces another character
+  if (event.code === 'Space' && key !== ' ') {
+    signatures.push(`${modifiers}|key: `);
+  }
+  return signatures;
 };
 
+// Thrown by register() when the conflict policy is 'error'
+export class ShortcutConflictError extends Error {
+  conflict: ShortcutConflict;
+
+  constructor(conflict: ShortcutConflict) {
+    const owners = conflict.shortcuts.map(s => s.componentId).join(', ');
+    super(`Shortcut "${conflict.keyString}" is already registered by: ${owners}`);
+    this.name = 'ShortcutConflictError';
+    this.conflict = conflict;
+    Object.setPrototypeOf(this, ShortcutConflictError.prototype);
+  }
+}
+
 class KeyboardShortcutManager {
   private static instance: KeyboardShortcutManager | null = null;
   private shortcuts: ComponentShortcutsMap = new Map();
   private isListening: boolean = false;
   private eventListeners: Set<ManagerEventListener> = new Set();
+  private scopes: ShortcutScope[] = [];
+  private commands: Map<string, RegisteredCommand> = new Map();
+  private componentMeta: Map<string, ComponentMeta> = new Map();
+  private options: Required<ManagerOptions> = {
+    sequenceTimeout: DEFAULT_SEQUENCE_TIMEOUT,
+    conflictPolicy: 'allow',
+    isEditableTarget: isEditableElement,
+    detectPlatform,
+    match: 'key',
+    storage: null,
+    ariaKeyShortcuts: true,
+    announcer: null,
+    debug: false,
+  };
+  private overrides: KeybindingOverrides = {};
+  // When clauses loaded from a keymap; not saved through storage
+  private whenOverrides: WhenOverrides = {};
+  // Elements given aria-keyshortcuts, with the value they had before
+  private ariaElements: Map<Element, string | null> = new Map();
+  private platform: Platform | null = null;
+  private registrationCount: number = 0;
+  private suspendCount: number = 0;
+  private debugCount: number = 0;
+  private debugLog: DebugRecord[] = [];
+  private debugRecordCount: number = 0;
+  private registrationOrder: WeakMap<RegisteredShortcut, number> = new WeakMap();
+  // Shortcuts by the signature of their first stroke, so a key press only looks at its own bucket
+  private strokeIndex: Map<string, Set<RegisteredShortcut>> = new Map();
+  private indexedSignatures: WeakMap<RegisteredShortcut, string> = new WeakMap();
+  // Shortcuts by conflict key, then target element, so conflict checks don't scan a busy key
+  private slotIndex: Map<string, Map<ShortcutTarget | undefined, Set<RegisteredShortcut>>> = new Map();
+  private indexedSlots: WeakMap<RegisteredShortcut, string> = new WeakMap();
+  private shortcutsById: Map<string, RegisteredShortcut> = new Map();
+  // Registered shortcuts with a target element, which get aria-keyshortcuts
+  private targetedShortcuts: Set<RegisteredShortcut> = new Set();
+  private ariaSyncPending: boolean = false;
+  // Context keys for when clauses, and each shortcut's clause parsed at registration
+  private context: Map<string, ContextValue> = new Map();
+  private whenPredicates: WeakMap<RegisteredShortcut, WhenPredicate> = new WeakMap();
+  // Keyed by shortcut ID, so replacing a shortcut under the same ID keeps its pending call
+  private runs: Map<string, ShortcutRun> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
+  // Targets listened to besides the global window
+  private listenTargets: Set<ListenTarget> = new Set();
+  // Events already dispatched, as one press can reach several listen targets
+  private dispatchedEvents: WeakSet<KeyboardEvent> = new WeakSet();
+  private handledBy: WeakMap<KeyboardEvent, RegisteredShortcut> = new WeakMap();
+  // Key presses a running shortcut took without calling its callback
+  private deferredEvents: WeakSet<KeyboardEvent> = new WeakSet();
+  private heldShortcuts: Map<string, { shortcut: RegisteredShortcut; startedAt: number }> = new Map();
+
+  // Pending key sequence state
+  private sequenceIndex: number = 0;
+  private pendingShortcuts: RegisteredShortcut[] = [];
+  private pendingCompleted: RegisteredShortcut[] = [];
+  private pendingEvent: KeyboardEvent | null = null;
+  private sequenceTimer: ReturnType<typeof setTimeout> | null = null;
 
-  private constructor() {
+  // Create an isolated manager (e.g. per ShortcutProvider); getShortcutManager() returns the shared one
+  constructor(options: ManagerOptions = {}) {
     this.handleKeyDown = this.handleKeyDown.bind(this);
+    this.handleKeyUp = this.handleKeyUp.bind(this);
+    this.handleBlur = this.handleBlur.bind(this);
+    this.configure(options);
   }
 
   // Singleton pattern
@@ -147,193 +703,1589 @@ class KeyboardShortcutManager {
   // Start listening for keyboard events
   private startListening(): void {
     if (!this.isListening && typeof window !== 'undefined') {
-      window.addEventListener('keydown', this.handleKeyDown);
+      this.addListeners(window);
+      this.listenTargets.forEach(target => this.addListeners(target));
       this.isListening = true;
+      loadKeyboardLayout();
     }
   }
 
   // Stop listening for keyboard events
   private stopListening(): void {
     if (this.isListening && typeof window !== 'undefined') {
-      window.removeEventListener('keydown', this.handleKeyDown);
+      this.removeListeners(window);
+      this.listenTargets.forEach(target => this.removeListeners(target));
       this.isListening = false;
     }
+    this.resetSequence();
+    this.releaseHeld(null);
   }
 
-  // Handle keydown events
-  private handleKeyDown(event: KeyboardEvent): void {
-    // Don't handle events in input fields unless explicitly configured
-    const target = event.target as HTMLElement;
-    const isInputField =
-      target.tagName === 'INPUT' ||
-      target.tagName === 'TEXTAREA' ||
-      target.isContentEditable;
-
-    // Iterate through all registered shortcuts
-    for (const [, shortcuts] of Array.from(this.shortcuts)) {
-      for (const shortcut of shortcuts) {
-        if (!shortcut.enabled) continue;
-
-        if (matchesKeyCombination(event, shortcut.keys)) {
-          // Skip if in input field and no modifiers
-          if (isInputField && !shortcut.keys.ctrl && !shortcut.keys.alt && !shortcut.keys.meta) {
-            continue;
-          }
-
-          if (shortcut.preventDefault !== false) {
-            event.preventDefault();
-          }
-          if (shortcut.stopPropagation) {
-            event.stopPropagation();
-          }
-
-          shortcut.callback(event);
-        }
-      }
+  // Add key listeners to a window, document or shadow root; only windows get a blur listener
+  private addListeners(target: ListenTarget): void {
+    target.addEventListener('keydown', this.handleKeyDown as EventListener);
+    target.addEventListener('keyup', this.handleKeyUp as EventListener);
+    if (isWindow(target)) {
+      target.addEventListener('blur', this.handleBlur);
     }
   }
 
-  // Emit events to listeners
-  private emit(event: ManagerEvent): void {
-    this.eventListeners.forEach(listener => listener(event));
+  // Remove the listeners added by addListeners
+  private removeListeners(target: ListenTarget): void {
+    target.removeEventListener('keydown', this.handleKeyDown as EventListener);
+    target.removeEventListener('keyup', this.handleKeyUp as EventListener);
+    if (isWindow(target)) {
+      target.removeEventListener('blur', this.handleBlur);
+    }
   }
 
-  // Subscribe to manager events
-  subscribe(listener: ManagerEventListener): () => void {
-    this.eventListeners.add(listener);
-    return () => {
-      this.eventListeners.delete(listener);
-    };
+  // Also listen on a same-origin iframe or popup window, a document or a shadow root; returns a detach function
+  attachTarget(target: ListenTarget): () => void {
+    const detach = () => this.detachTarget(target);
+    if ((typeof window !== 'undefined' && target === window) || this.listenTargets.has(target)) {
+      return detach;
+    }
+
+    this.listenTargets.add(target);
+    if (this.isListening) {
+      this.addListeners(target);
+    }
+    return detach;
   }
 
-  // Register shortcuts for a component
-  register(componentId: string, definitions: ShortcutDefinition[]): string[] {
-    if (!this.shortcuts.has(componentId)) {
-      this.shortcuts.set(componentId, []);
+  // Stop listening on a target added with attachTarget
+  detachTarget(target: ListenTarget): void {
+    if (!this.listenTargets.delete(target)) return;
+
+    if (this.isListening) {
+      this.removeListeners(target);
     }
+    // Keyups from the detached target will no longer arrive
+    this.releaseHeld(null);
+  }
 
-    const componentShortcuts = this.shortcuts.get(componentId)!;
-    const registeredIds: string[] = [];
+  // Targets added with attachTarget
+  getAttachedTargets(): ListenTarget[] {
+    return Array.from(this.listenTargets);
+  }
 
-    for (const def of definitions) {
-      const keys = typeof def.keys === 'string'
-        ? parseKeyString(def.keys)
-        : def.keys;
+  // Ignore key presses until the returned resume function is called (e.g. while recording keys)
+  suspend(): () => void {
+    this.suspendCount++;
+    this.resetSequence();
+    this.releaseHeld(null);
 
-      const shortcut: RegisteredShortcut = {
-        id: generateId(),
-        componentId,
-        keys,
-        callback: def.callback,
-        description: def.options?.description || '',
-        enabled: def.options?.enabled !== false,
-        preventDefault: def.options?.preventDefault !== false,
-        stopPropagation: def.options?.stopPropagation || false,
-        registeredAt: Date.now(),
-      };
+    let resumed = false;
+    return () => {
+      if (resumed) return;
+      resumed = true;
+      this.suspendCount = Math.max(0, this.suspendCount - 1);
+    };
+  }
 
-      componentShortcuts.push(shortcut);
-      registeredIds.push(shortcut.id);
+  isSuspended(): boolean {
+    return this.suspendCount > 0;
+  }
+
+  // Update manager configuration
+  configure(options: ManagerOptions): void {
+    this.options = { ...this.options, ...options };
+    this.platform = null;
+    // Signatures depend on the platform ('Mod') and the default match mode
+    this.rebuildIndex();
+
+    if (options.storage) {
+      this.loadOverrides();
     }
+    this.syncAriaKeyShortcuts();
+  }
 
-    this.startListening();
-    this.emit({ type: 'register', componentId, keys: registeredIds });
+  // Platform 'Mod' currently resolves for (detected once, re-detected after configure)
+  getPlatform(): Platform {
+    if (!this.platform) {
+      this.platform = this.options.detectPlatform();
+    }
+    return this.platform;
+  }
 
-    return registeredIds;
+  // Whether a key sequence is waiting for its next stroke
+  isSequencePending(): boolean {
+    return this.sequenceIndex > 0;
   }
 
-  // Deregister specific shortcuts from a component
-  deregister(componentId: string, keyStrings: string[]): void {
-    const componentShortcuts = this.shortcuts.get(componentId);
-    if (!componentShortcuts) return;
+  // Drop any pending key sequence
+  private resetSequence(): void {
+    if (this.sequenceTimer) {
+      clearTimeout(this.sequenceTimer);
+      this.sequenceTimer = null;
+    }
+    this.sequenceIndex = 0;
+    this.pendingShortcuts = [];
+    this.pendingCompleted = [];
+    this.pendingEvent = null;
+  }
 
-    const keyCombinations = keyStrings.map(parseKeyString);
+  // Forget pending shortcuts that are no longer registered
+  private prunePendingSequence(): void {
+    if (this.sequenceIndex === 0) return;
 
-    const remaining = componentShortcuts.filter(shortcut => {
-      return !keyCombinations.some(combo =>
-        keyCombinationToString(combo) === keyCombinationToString(shortcut.keys)
-      );
-    });
+    const registered = new Set(this.getActiveShortcuts());
+    this.pendingShortcuts = this.pendingShortcuts.filter(s => registered.has(s));
+    this.pendingCompleted = this.pendingCompleted.filter(s => registered.has(s));
 
-    if (remaining.length === 0) {
-      this.shortcuts.delete(componentId);
-    } else {
-      this.shortcuts.set(componentId, remaining);
+    if (this.pendingShortcuts.length === 0) {
+      this.flushSequence();
     }
+  }
 
-    // Stop listening if no shortcuts remain
-    if (this.shortcuts.size === 0) {
-      this.stopListening();
+  // Fire bindings that ended at the pending prefix, then drop the sequence
+  private flushSequence(): void {
+    const completed = this.pendingCompleted;
+    const event = this.pendingEvent;
+    this.resetSequence();
+    if (event) {
+      this.fire(completed, event);
     }
+  }
 
-    this.emit({ type: 'deregister', componentId, keys: keyStrings });
+  // Handle keydown events
+  private handleKeyDown(event: KeyboardEvent): void {
+    if (this.dispatchedEvents.has(event)) return;
+    this.dispatchedEvents.add(event);
+
+    // Verdicts are taken before dispatch, as it moves any pending sequence on
+    const judged = this.isDebugging() ? this.judgeKeyDown(event) : null;
+    if (this.suspendCount === 0) {
+      this.processKeyDown(event);
+    }
+    if (judged) {
+      this.recordDebug(event, judged);
+    }
   }
 
-  // Enable specific shortcuts for a component
-  enable(componentId: string, keyStrings: string[]): void {
-    const componentShortcuts = this.shortcuts.get(componentId);
-    if (!componentShortcuts) return;
+  // Match a key press against active shortcuts, advancing or settling a pending sequence
+  private processKeyDown(event: KeyboardEvent): void {
+    // Modifier presses and auto-repeats between strokes shouldn't affect a pending sequence
+    if (this.sequenceIndex > 0 && (MODIFIER_KEYS.includes(event.key) || event.repeat)) {
+      return;
+    }
 
-    const keyCombinations = keyStrings.map(parseKeyString);
+    const editable = this.getEditableOrigin(event);
+    let candidates = this.pendingShortcuts;
+    let claimed = false;
+    if (this.sequenceIndex === 0) {
+      const active = this.getActiveCandidates(event);
+      candidates = active.filter(shortcut => !firesOnKeyUp(shortcut));
 
-    componentShortcuts.forEach(shortcut => {
-      if (keyCombinations.some(combo =>
-        keyCombinationToString(combo) === keyCombinationToString(shortcut.keys)
-      )) {
-        shortcut.enabled = true;
+      // Keyup comes too late to cancel the browser's default, so keyup shortcuts claim their keydown
+      const pressed = active.filter(shortcut =>
+        firesOnKeyUp(shortcut) &&
+        this.matchesStroke(shortcut, toKeySequence(shortcut.keys)[0], event, editable)
+      );
+      claimed = pressed.length > 0;
+      if (pressed.some(s => s.preventDefault !== false)) {
+        event.preventDefault();
       }
+    }
+
+    const matched = candidates.filter(shortcut => {
+      if (event.repeat && (shortcut.repeat === false || shortcut.trigger === 'hold')) return false;
+
+      const combo = toKeySequence(shortcut.keys)[this.sequenceIndex];
+      return !!combo && this.matchesStroke(shortcut, combo, event, editable);
     });
 
-    this.emit({ type: 'enable', componentId, keys: keyStrings });
-  }
+    if (this.sequenceIndex === 0) {
+      this.reportUnmatched(event, false, editable, matched.length > 0 || claimed);
+    }
 
-  // Disable specific shortcuts for a component (keep registered)
-  disable(componentId: string, keyStrings: string[]): void {
-    const componentShortcuts = this.shortcuts.get(componentId);
-    if (!componentShortcuts) return;
+    if (matched.length === 0) {
+      if (this.sequenceIndex > 0) {
+        // Sequence broken: settle the prefix, then treat this key as a fresh stroke
+        this.flushSequence();
+        this.processKeyDown(event);
+      }
+      return;
+    }
 
-    const keyCombinations = keyStrings.map(parseKeyString);
+    const nextIndex = this.sequenceIndex + 1;
+    const completed = matched.filter(s => toKeySequence(s.keys).length === nextIndex);
+    const partial = matched.filter(s => toKeySequence(s.keys).length > nextIndex);
 
-    componentShortcuts.forEach(shortcut => {
-      if (keyCombinations.some(combo =>
-        keyCombinationToString(combo) === keyCombinationToString(shortcut.keys)
-      )) {
-        shortcut.enabled = false;
+    if (partial.length > 0) {
+      // Wait for the next stroke; a binding that ends here fires on timeout
+      if (partial.some(s => s.preventDefault !== false)) {
+        event.preventDefault();
       }
-    });
+      this.pendingShortcuts = partial;
+      this.pendingCompleted = completed;
+      this.pendingEvent = event;
+      this.sequenceIndex = nextIndex;
 
-    this.emit({ type: 'disable', componentId, keys: keyStrings });
+      if (this.sequenceTimer) clearTimeout(this.sequenceTimer);
+      this.sequenceTimer = setTimeout(() => this.flushSequence(), this.options.sequenceTimeout);
+      return;
+    }
+
+    this.resetSequence();
+    this.fire(completed, event);
   }
 
-  // Clear all shortcuts for a component
-  clearComponent(componentId: string): void {
-    this.shortcuts.delete(componentId);
+  // Handle keyup events: end holds and fire keyup-triggered shortcuts
+  private handleKeyUp(event: KeyboardEvent): void {
+    if (this.dispatchedEvents.has(event)) return;
+    this.dispatchedEvents.add(event);
 
-    if (this.shortcuts.size === 0) {
-      this.stopListening();
+    this.releaseHeld(event);
+    if (this.suspendCount > 0) return;
+
+    const editable = this.getEditableOrigin(event);
+    const matched = this.getActiveCandidates(event).filter(shortcut =>
+      firesOnKeyUp(shortcut) &&
+      this.matchesStroke(shortcut, toKeySequence(shortcut.keys)[0], event, editable)
+    );
+    this.reportUnmatched(event, true, editable, true);
+
+    if (matched.length > 0) {
+      this.fire(matched, event);
     }
+  }
 
-    this.emit({ type: 'clear', componentId });
+  // Keyups are lost when the window loses focus, so end every hold
+  private handleBlur(): void {
+    this.releaseHeld(null);
   }
 
-  // Get all registered keys for a component
-  getComponentKeys(componentId: string): RegisteredShortcut[] {
-    return this.shortcuts.get(componentId) || [];
+  // End holds of the released key (all holds when no event is given)
+  private releaseHeld(event: KeyboardEvent | null): void {
+    const releasedKey = event ? heldKeyOf(event) : null;
+    this.heldShortcuts.forEach((hold, key) => {
+      if (releasedKey !== null && key !== releasedKey) return;
+
+      this.heldShortcuts.delete(key);
+      hold.shortcut.onRelease?.({ event, duration: Date.now() - hold.startedAt });
+    });
   }
 
-  // Get all registered shortcuts across all components
-  getAllShortcuts(): Map<string, RegisteredShortcut[]> {
-    return new Map(this.shortcuts);
+  // Editable element the event came from, if any (allowIn policies apply there)
+  private getEditableOrigin(event: KeyboardEvent): Element | null {
+    const origin = getEventOrigin(event);
+    return origin && this.options.isEditableTarget(origin, event) ? origin : null;
   }
 
-  // Get list of all supported keys
-  getAllAvailableKeys(): readonly string[] {
-    return SUPPORTED_KEYS;
+  // Check one stroke of a shortcut against an event: keys, target element and allowIn policy
+  private matchesStroke(
+    shortcut: RegisteredShortcut,
+    combo: KeyCombination,
+    event: KeyboardEvent,
+    editable: Element | null
+  ): boolean {
+    return this.explainStroke(shortcut, combo, event, editable) === null;
   }
 
-  // Get all component IDs
-  getComponentIds(): string[] {
-    return Array.from(this.shortcuts.keys());
+  // Why one stroke of a shortcut doesn't match an event, or null if it does
+  private explainStroke(
+    shortcut: RegisteredShortcut,
+    combo: KeyCombination,
+    event: KeyboardEvent,
+    editable: Element | null
+  ): 'key' | 'modifiers' | 'target' | 'editable' | null {
+    const mode = shortcut.match || this.options.match;
+    const mismatch = explainKeyMismatch(event, combo, this.getPlatform(), mode);
+    if (mismatch) return mismatch;
+    if (!isWithinTarget(shortcut, event)) return 'target';
+
+    if (editable && !isAllowedInEditable(shortcut.allowIn || 'with-modifiers', combo, event, editable)) {
+      return 'editable';
+    }
+    return null;
+  }
+
+  // Why a shortcut whose first stroke matches the event's keys wasn't a candidate, if it was filtered out
+  private getSkipReason(shortcut: RegisteredShortcut, event: KeyboardEvent, editable: Element | null): SkipReason | null {
+    if (!shortcut.enabled) return 'disabled';
+    if (!this.isScopeActive(shortcut.scope)) return 'scope';
+    if (!this.matchesWhen(shortcut)) return 'when';
+
+    const reason = this.explainStroke(shortcut, toKeySequence(shortcut.keys)[0], event, editable);
+    return reason === 'target' || reason === 'editable' ? reason : null;
+  }
+
+  // Why each registered shortcut would or wouldn't match a keydown, following processKeyDown
+  private judgeKeyDown(event: KeyboardEvent): JudgedKeyDown {
+    if (this.suspendCount > 0) return { stroke: this.sequenceIndex, verdicts: [] };
+
+    const editable = this.getEditableOrigin(event);
+    const all: RegisteredShortcut[] = [];
+    this.shortcuts.forEach(shortcuts => all.push(...shortcuts));
+    const judge = (shortcut: RegisteredShortcut, stroke: number): DebugReason | null => {
+      if (firesOnKeyUp(shortcut)) return 'keyup';
+      if (!shortcut.enabled) return 'disabled';
+      if (!this.isScopeActive(shortcut.scope)) return 'scope';
+      if (!this.matchesWhen(shortcut)) return 'when';
+      if (stroke > 0 && !this.pendingShortcuts.includes(shortcut)) return 'sequence';
+      if (event.repeat && (shortcut.repeat === false || shortcut.trigger === 'hold')) return 'repeat';
+
+      const combo = toKeySequence(shortcut.keys)[stroke];
+      return combo ? this.explainStroke(shortcut, combo, event, editable) : 'key';
+    };
+
+    let stroke = this.sequenceIndex;
+    let verdicts = all.map(shortcut => [shortcut, judge(shortcut, stroke)] as [RegisteredShortcut, DebugReason | null]);
+
+    // A press that breaks a pending sequence is matched again as a fresh stroke
+    const ignored = MODIFIER_KEYS.includes(event.key) || event.repeat;
+    if (stroke > 0 && !ignored && verdicts.every(([, reason]) => reason !== null)) {
+      stroke = 0;
+      verdicts = all.map(shortcut => [shortcut, judge(shortcut, stroke)] as [RegisteredShortcut, DebugReason | null]);
+    }
+    return { stroke, verdicts };
+  }
+
+  // Settle the verdicts of matching shortcuts after dispatch, then log and emit the record
+  private recordDebug(event: KeyboardEvent, judged: JudgedKeyDown): void {
+    const handled = this.handledBy.get(event);
+    const combo = eventToKeyCombination(event, this.options.match);
+
+    const record: DebugRecord = {
+      id: ++this.debugRecordCount,
+      timestamp: Date.now(),
+      key: event.key,
+      code: event.code,
+      modifiers: { ctrl: event.ctrlKey, alt: event.altKey, shift: event.shiftKey, meta: event.metaKey },
+      repeat: event.repeat,
+      keyString: combo ? keyCombinationToString(combo, this.getPlatform()) : null,
+      target: describeElement(getEventOrigin(event)),
+      stroke: judged.stroke,
+      suspended: this.suspendCount > 0,
+      candidates: judged.verdicts.map(([shortcut, reason]) => {
+        if (reason) return { shortcut, accepted: false, reason };
+        if (shortcut === handled && this.deferredEvents.has(event)) {
+          return { shortcut, accepted: false, reason: 'running' };
+        }
+
+        let verdict: DebugReason = 'passed';
+        if (shortcut === handled) {
+          verdict = 'fired';
+        } else if (this.pendingShortcuts.includes(shortcut) || this.pendingCompleted.includes(shortcut)) {
+          verdict = 'pending';
+        } else if (handled) {
+          verdict = 'shadowed';
+        }
+        return { shortcut, accepted: true, reason: verdict };
+      }),
+    };
+
+    this.debugLog.push(record);
+    if (this.debugLog.length > DEBUG_LOG_SIZE) {
+      this.debugLog.shift();
+    }
+    this.emit({
+      type: 'debug',
+      componentId: '',
+      keys: record.keyString ? [record.keyString] : undefined,
+      keyboardEvent: event,
+      debug: record,
+    });
+  }
+
+  // Whether key presses are being recorded (debug option or an active startDebugging call)
+  isDebugging(): boolean {
+    return this.options.debug || this.debugCount > 0;
+  }
+
+  // Record key presses until the returned stop function is called (e.g. while a debugger is shown)
+  startDebugging(): () => void {
+    this.debugCount++;
+
+    let stopped = false;
+    return () => {
+      if (stopped) return;
+      stopped = true;
+      this.debugCount--;
+    };
+  }
+
+  // Recent key presses recorded in debug mode, oldest first
+  getDebugLog(): DebugRecord[] {
+    return [...this.debugLog];
+  }
+
+  // Forget recorded key presses
+  clearDebugLog(): void {
+    this.debugLog = [];
+  }
+
+  // Emit skipped events for shortcuts bound to the pressed keys that were filtered out,
+  // and a miss when nothing is bound to them at all
+  private reportUnmatched(event: KeyboardEvent, keyUp: boolean, editable: Element | null, matched: boolean): void {
+    if (this.eventListeners.size === 0) return;
+
+    const platform = this.getPlatform();
+    const skipped: Array<{ shortcut: RegisteredShortcut; reason: SkipReason }> = [];
+    this.lookupShortcuts(event).forEach(shortcut => {
+      if (firesOnKeyUp(shortcut) !== keyUp) return;
+
+      const mode = shortcut.match || this.options.match;
+      if (!matchesKeyCombination(event, toKeySequence(shortcut.keys)[0], platform, mode)) return;
+
+      const reason = this.getSkipReason(shortcut, event, editable);
+      if (reason) skipped.push({ shortcut, reason });
+    });
+
+    skipped.forEach(({ shortcut, reason }) => {
+      this.emitShortcutEvent('skipped', shortcut, event, { reason });
+    });
+
+    // Modifier presses on their own aren't misses
+    const combo = eventToKeyCombination(event, this.options.match);
+    if (!keyUp && !matched && skipped.length === 0 && combo) {
+      this.emit({
+        type: 'miss',
+        componentId: '',
+        keys: [keyCombinationToString(combo, platform)],
+        keyboardEvent: event,
+      });
+    }
+  }
+
+  // Emit a dispatch event about one shortcut
+  private emitShortcutEvent(
+    type: ManagerEventType,
+    shortcut: RegisteredShortcut,
+    event: KeyboardEvent,
+    details: Partial<ManagerEvent> = {}
+  ): void {
+    this.emit({
+      type,
+      componentId: shortcut.componentId,
+      keys: [keyCombinationToString(shortcut.keys, this.getPlatform())],
+      scope: shortcut.scope,
+      shortcut,
+      keyboardEvent: event,
+      ...details,
+    });
+  }
+
+  // Add a shortcut to the bucket of its first stroke
+  private indexShortcut(shortcut: RegisteredShortcut): void {
+    const mode = shortcut.match || this.options.match;
+    const signature = strokeSignature(toKeySequence(shortcut.keys)[0], this.getPlatform(), mode);
+
+    let bucket = this.strokeIndex.get(signature);
+    if (!bucket) {
+      bucket = new Set();
+      this.strokeIndex.set(signature, bucket);
+    }
+    bucket.add(shortcut);
+    this.indexedSignatures.set(shortcut, signature);
+
+    const slot = getConflictKey(shortcut, this.getPlatform());
+    const targets = this.slotIndex.get(slot) || new Map<ShortcutTarget | undefined, Set<RegisteredShortcut>>();
+    const occupants = targets.get(shortcut.target) || new Set<RegisteredShortcut>();
+    occupants.add(shortcut);
+    targets.set(shortcut.target, occupants);
+    this.slotIndex.set(slot, targets);
+    this.indexedSlots.set(shortcut, slot);
+
+    if (shortcut.target) {
+      this.targetedShortcuts.add(shortcut);
+    }
+  }
+
+  // Remove a shortcut from the bucket it was indexed under
+  private unindexShortcut(shortcut: RegisteredShortcut): void {
+    const signature = this.indexedSignatures.get(shortcut);
+    if (signature === undefined) return;
+
+    const bucket = this.strokeIndex.get(signature);
+    bucket?.delete(shortcut);
+    if (bucket && bucket.size === 0) {
+      this.strokeIndex.delete(signature);
+    }
+    this.indexedSignatures.delete(shortcut);
+    this.targetedShortcuts.delete(shortcut);
+
+    const slot = this.indexedSlots.get(shortcut);
+    const targets = slot !== undefined ? this.slotIndex.get(slot) : undefined;
+    const occupants = targets?.get(shortcut.target);
+    occupants?.delete(shortcut);
+    if (targets && occupants && occupants.size === 0) {
+      targets.delete(shortcut.target);
+      if (targets.size === 0) this.slotIndex.delete(slot!);
+    }
+    this.indexedSlots.delete(shortcut);
+  }
+
+  // Re-index every shortcut (after bulk rebinding or a platform/match mode change)
+  private rebuildIndex(): void {
+    this.strokeIndex.clear();
+    this.slotIndex.clear();
+    this.targetedShortcuts.clear();
+    this.shortcuts.forEach(shortcuts => shortcuts.forEach(shortcut => this.indexShortcut(shortcut)));
+  }
+
+  // Shortcuts whose first stroke may match the event, in registration order
+  private lookupShortcuts(event: KeyboardEvent): RegisteredShortcut[] {
+    const result: RegisteredShortcut[] = [];
+    eventSignatures(event).forEach(signature => {
+      this.strokeIndex.get(signature)?.forEach(shortcut => result.push(shortcut));
+    });
+    return this.sortByRegistration(result);
+  }
+
+  // Sort shortcuts (in place) by registration order
+  private sortByRegistration(shortcuts: RegisteredShortcut[]): RegisteredShortcut[] {
+    const order = (shortcut: RegisteredShortcut) => this.registrationOrder.get(shortcut) || 0;
+    return shortcuts.sort((a, b) => order(a) - order(b));
+  }
+
+
+  // Enabled shortcuts in active scopes whose first stroke may match the event
+  private getActiveCandidates(event: KeyboardEvent): RegisteredShortcut[] {
+    return this.lookupShortcuts(event).filter(shortcut => this.isShortcutActive(shortcut));
+  }
+
+  // Check a shortcut's when clause against the current context keys
+  private matchesWhen(shortcut: RegisteredShortcut): boolean {
+    const predicate = this.whenPredicates.get(shortcut);
+    return !predicate || predicate(key => this.context.get(key));
+  }
+
+  // Set a context key for when clauses; undefined removes it
+  setContext(key: string, value: ContextValue): void {
+    if (this.context.get(key) === value && (value !== undefined || !this.context.has(key))) return;
+
+    if (value === undefined) {
+      this.context.delete(key);
+    } else {
+      this.context.set(key, value);
+    }
+    // A pending sequence may no longer apply
+    this.prunePendingSequence();
+    this.emit({ type: 'context', componentId: '', keys: [key] });
+  }
+
+  // Get a context key's value
+  getContext(key: string): ContextValue {
+    return this.context.get(key);
+  }
+
+  // Get all context keys
+  getContextKeys(): Record<string, ContextValue> {
+    const result: Record<string, ContextValue> = {};
+    this.context.forEach((value, key) => {
+      result[key] = value;
+    });
+    return result;
+  }
+
+  // Evaluate a when clause against the current context keys (throws if it doesn't parse)
+  evaluateWhen(expression: string): boolean {
+    return parseWhenClause(expression)(key => this.context.get(key));
+  }
+
+  // Enabled shortcuts in active scopes across all components, in registration order
+  private getActiveShortcuts(): RegisteredShortcut[] {
+    const result: RegisteredShortcut[] = [];
+    for (const [, shortcuts] of Array.from(this.shortcuts)) {
+      for (const shortcut of shortcuts) {
+        if (this.isShortcutActive(shortcut)) {
+          result.push(shortcut);
+        }
+      }
+    }
+    return result;
+  }
+
+  // Keep only the most recently registered shortcut per binding, scope and target
+  private keepLatestRegistered(shortcuts: RegisteredShortcut[]): RegisteredShortcut[] {
+    const order = (shortcut: RegisteredShortcut) => this.registrationOrder.get(shortcut) || 0;
+    const platform = this.getPlatform();
+    return shortcuts.filter(shortcut => !shortcuts.some(other =>
+      other !== shortcut && occupiesSameSlot(other, shortcut, platform) && order(other) > order(shortcut)
+    ));
+  }
+
+  // Shortcuts from other components competing for the same slot
+  private findConflicting(shortcut: RegisteredShortcut): RegisteredShortcut[] {
+    const occupants = this.slotIndex.get(getConflictKey(shortcut, this.getPlatform()))?.get(shortcut.target);
+    if (!occupants) return [];
+    return this.sortByRegistration(
+      Array.from(occupants).filter(existing => existing.componentId !== shortcut.componentId)
+    );
+  }
+
+  // Registered shortcuts bound to the given keys in the given scope (e.g. to validate a rebinding)
+  getBindingConflicts(keys: string | KeyBinding, scope?: string): RegisteredShortcut[] {
+    const platform = this.getPlatform();
+    const binding = typeof keys === 'string' ? parseKeyBinding(keys) : keys;
+    // Any target element
+    const result: RegisteredShortcut[] = [];
+    this.slotIndex.get(conflictKey(binding, scope, platform))?.forEach(occupants => result.push(...Array.from(occupants)));
+    return this.sortByRegistration(result);
+  }
+
+  // Get all bindings currently claimed by more than one component
+  getConflicts(): ShortcutConflict[] {
+    const platform = this.getPlatform();
+    const conflicts: ShortcutConflict[] = [];
+    this.slotIndex.forEach(targets => targets.forEach(occupants => {
+      const owners = new Set(Array.from(occupants).map(s => s.componentId));
+      if (owners.size > 1) {
+        const shortcuts = this.sortByRegistration(Array.from(occupants));
+        conflicts.push({
+          keyString: keyCombinationToString(shortcuts[0].keys, platform),
+          scope: shortcuts[0].scope,
+          shortcuts,
+        });
+      }
+    }));
+    return conflicts;
+  }
+
+  // Push a scope layer; an exclusive layer shadows everything below it
+  pushScope(scopeId: string, options: PushScopeOptions = {}): void {
+    this.scopes = this.scopes.filter(scope => scope.id !== scopeId);
+    this.scopes.push({ id: scopeId, exclusive: options.exclusive !== false });
+    this.prunePendingSequence();
+    this.emit({ type: 'pushScope', componentId: '', scope: scopeId });
+  }
+
+  // Pop a scope layer (the topmost one if no ID is given)
+  popScope(scopeId?: string): void {
+    const scope = scopeId === undefined
+      ? this.scopes[this.scopes.length - 1]
+      : this.scopes.find(s => s.id === scopeId);
+    if (!scope) return;
+
+    this.scopes = this.scopes.filter(s => s !== scope);
+    this.prunePendingSequence();
+    this.emit({ type: 'popScope', componentId: '', scope: scope.id });
+  }
+
+  // Get the scope stack, bottom first
+  getScopeStack(): ShortcutScope[] {
+    return [...this.scopes];
+  }
+
+  // Check whether shortcuts in a scope can currently fire (undefined = unscoped).
+  // ignoreScopes leaves layers out, e.g. an overlay's own scope while it lists what is beneath it.
+  isScopeActive(scopeId?: string, ignoreScopes: string[] = []): boolean {
+    const stack = ignoreScopes.length > 0
+      ? this.scopes.filter(scope => !ignoreScopes.includes(scope.id))
+      : this.scopes;
+
+    let exclusiveIndex = -1;
+    stack.forEach((scope, index) => {
+      if (scope.exclusive) exclusiveIndex = index;
+    });
+
+    if (scopeId === undefined) {
+      return exclusiveIndex === -1;
+    }
+
+    const index = stack.findIndex(scope => scope.id === scopeId);
+    return index !== -1 && index >= exclusiveIndex;
+  }
+
+  // Check whether a shortcut can currently fire: enabled, in an active scope, and its when clause holds
+  isShortcutActive(shortcut: RegisteredShortcut, ignoreScopes: string[] = []): boolean {
+    return shortcut.enabled && this.isScopeActive(shortcut.scope, ignoreScopes) && this.matchesWhen(shortcut);
+  }
+
+  // Run callbacks in descending priority until one handles the event
+  private fire(shortcuts: RegisteredShortcut[], event: KeyboardEvent): RegisteredShortcut | undefined {
+    const candidates = this.options.conflictPolicy === 'last-wins'
+      ? this.keepLatestRegistered(shortcuts)
+      : shortcuts;
+
+    // Array sort is stable, so remaining ties keep registration order
+    const ordered = [...candidates].sort((a, b) =>
+      b.priority - a.priority || compareTargets(a, b)
+    );
+
+    for (const shortcut of ordered) {
+      const run = this.getBlockingRun(shortcut);
+      if (run) {
+        // The shortcut still owns the key press, so it neither passes on nor reaches the browser
+        this.claimEvent(shortcut, event);
+        this.deferCall(shortcut, run, event);
+        return shortcut;
+      }
+
+      // Returning false passes the event on to the next shortcut
+      if (this.invoke(shortcut, event) === false) continue;
+
+      this.claimEvent(shortcut, event);
+      if (!event.repeat) {
+        this.options.announcer?.announce(this.describeShortcut(shortcut));
+      }
+      if (shortcut.trigger === 'hold') {
+        this.heldShortcuts.set(heldKeyOf(event), { shortcut, startedAt: Date.now() });
+      }
+      this.emitShortcutEvent('trigger', shortcut, event, { defaultPrevented: event.defaultPrevented });
+      return shortcut;
+    }
+
+    return undefined;
+  }
+
+  // Apply a shortcut's preventDefault / stopPropagation and record it as the handler
+  private claimEvent(shortcut: RegisteredShortcut, event: KeyboardEvent): void {
+    if (shortcut.preventDefault !== false) {
+      event.preventDefault();
+    }
+    if (shortcut.stopPropagation) {
+      event.stopPropagation();
+    }
+    this.handledBy.set(event, shortcut);
+  }
+
+  // Call a shortcut's callback; a returned promise counts as handled and is tracked until it settles
+  private invoke(shortcut: RegisteredShortcut, event: KeyboardEvent): boolean | void {
+    let result: boolean | void | Promise<unknown>;
+    try {
+      result = shortcut.callback(event, { signal: this.getAbortSignal(shortcut.id) });
+    } catch (error) {
+      this.emitShortcutEvent('error', shortcut, event, { error });
+      throw error;
+    }
+    if (isPromiseLike(result)) {
+      this.trackRun(shortcut, event, result);
+      return undefined;
+    }
+    return result;
+  }
+
+  // Signal passed to a shortcut's callbacks until it is deregistered
+  private getAbortSignal(id: string): AbortSignal {
+    let controller = this.abortControllers.get(id);
+    if (!controller) {
+      controller = new AbortController();
+      this.abortControllers.set(id, controller);
+    }
+    return controller.signal;
+  }
+
+  // Pending run that keeps a shortcut from being called again, per its concurrency policy
+  private getBlockingRun(shortcut: RegisteredShortcut): ShortcutRun | undefined {
+    return shortcut.concurrency === 'parallel' ? undefined : this.runs.get(shortcut.id);
+  }
+
+  // Queue or drop a call made while the shortcut is running
+  private deferCall(shortcut: RegisteredShortcut, run: ShortcutRun, event: KeyboardEvent): void {
+    this.deferredEvents.add(event);
+    if (shortcut.concurrency === 'queue') {
+      run.queue.push(event);
+    } else {
+      this.emitShortcutEvent('skipped', shortcut, event, { reason: 'running' });
+    }
+  }
+
+  // Mark a shortcut as running until the promise settles
+  private trackRun(shortcut: RegisteredShortcut, event: KeyboardEvent, promise: PromiseLike<unknown>): void {
+    const { id } = shortcut;
+    const signal = this.getAbortSignal(id);
+
+    let run = this.runs.get(id);
+    if (run) {
+      run.pending++;
+      run.event = event;
+    } else {
+      run = { pending: 1, queue: [], event };
+      this.runs.set(id, run);
+      this.emitShortcutEvent('running', shortcut, event, { running: true });
+    }
+
+    const current = run;
+    promise.then(
+      () => this.settleRun(id, current),
+      error => {
+        // Rejections after cancellation (e.g. an AbortError) are expected
+        if (!signal.aborted) {
+          this.emitShortcutEvent('error', this.shortcutsById.get(id) || shortcut, event, { error });
+        }
+        // The 'error' event reports the rejection; rethrowing would only leave it unhandled
+        this.settleRun(id, current);
+      }
+    );
+  }
+
+  // Finish one pending call, then start the next queued one
+  private settleRun(id: string, run: ShortcutRun): void {
+    // Cancelled when the shortcut was deregistered
+    if (this.runs.get(id) !== run) return;
+
+    run.pending--;
+    if (run.pending > 0) return;
+    this.runs.delete(id);
+
+    let shortcut = this.shortcutsById.get(id);
+    while (shortcut && run.queue.length > 0) {
+      const event = run.queue.shift()!;
+      try {
+        if (this.invoke(shortcut, event) !== false) {
+          this.emitShortcutEvent('trigger', shortcut, event, { defaultPrevented: event.defaultPrevented });
+        }
+      } catch {
+        // Already reported as an 'error' event; keep draining the queue
+      }
+
+      const next = this.runs.get(id);
+      if (next) {
+        next.queue.push(...run.queue);
+        return;
+      }
+      shortcut = this.shortcutsById.get(id);
+    }
+
+    if (shortcut) {
+      this.emitShortcutEvent('running', shortcut, run.event, { running: false });
+    }
+  }
+
+  // Abort a shortcut's signal and drop its queued calls
+  private cancelRun(shortcut: RegisteredShortcut): void {
+    this.abortControllers.get(shortcut.id)?.abort();
+    this.abortControllers.delete(shortcut.id);
+
+    const run = this.runs.get(shortcut.id);
+    if (run) {
+      this.runs.delete(shortcut.id);
+      this.emitShortcutEvent('running', shortcut, run.event, { running: false });
+    }
+  }
+
+  // Check whether a shortcut has a pending async call
+  isRunning(id: string): boolean {
+    return this.runs.has(id);
+  }
+
+  // Shortcuts with a pending async call, optionally for one component
+  getRunningShortcuts(componentId?: string): RegisteredShortcut[] {
+    const running: RegisteredShortcut[] = [];
+    this.runs.forEach((_, id) => {
+      const shortcut = this.shortcutsById.get(id);
+      if (shortcut && (componentId === undefined || shortcut.componentId === componentId)) {
+        running.push(shortcut);
+      }
+    });
+    return running;
+  }
+
+  // Run a shortcut outside key dispatch (e.g. from a menu), with the same concurrency policy.
+  // Without an event, the callback gets a keydown built from the shortcut's binding.
+  // Returns false if no shortcut has the ID, it isn't active (see isShortcutActive; ignoreScopes
+  // is passed on), its callback returned false or the call was ignored.
+  runShortcut(id: string, event?: KeyboardEvent, ignoreScopes: string[] = []): boolean {
+    const shortcut = this.shortcutsById.get(id);
+    if (!shortcut || !this.isShortcutActive(shortcut, ignoreScopes)) return false;
+    return this.callShortcut(shortcut, event || createTriggerEvent(shortcut.keys, this.getPlatform()));
+  }
+
+  // Call a shortcut outside key dispatch, queueing or dropping the call while it is running
+  private callShortcut(shortcut: RegisteredShortcut, event: KeyboardEvent): boolean {
+    const run = this.getBlockingRun(shortcut);
+    if (run) {
+      this.deferCall(shortcut, run, event);
+      return shortcut.concurrency === 'queue';
+    }
+    return this.invoke(shortcut, event) !== false;
+  }
+
+  // Get the shortcut that handled a keyboard event, if any
+  getHandledShortcut(event: KeyboardEvent): RegisteredShortcut | undefined {
+    return this.handledBy.get(event);
+  }
+
+  // Register (or replace) a command that menus, buttons and key bindings can all run
+  registerCommand(commandId: string, handler: CommandHandler, meta: CommandMeta = {}): void {
+    this.commands.set(commandId, { id: commandId, handler, ...meta });
+    this.emit({ type: 'registerCommand', componentId: '', command: commandId });
+  }
+
+  // Remove a command; with a handler, only if it is still the registered one
+  unregisterCommand(commandId: string, handler?: CommandHandler): void {
+    const command = this.commands.get(commandId);
+    if (!command || (handler && command.handler !== handler)) return;
+
+    this.commands.delete(commandId);
+    this.emit({ type: 'unregisterCommand', componentId: '', command: commandId });
+  }
+
+  // Run a command; returns false if it isn't registered or its handler returned false
+  executeCommand(commandId: string, args?: unknown, event: KeyboardEvent | null = null): boolean {
+    return this.runCommand(commandId, args, event) !== false;
+  }
+
+  // Run a command and return its handler's result, so key bindings can track a returned promise
+  private runCommand(commandId: string, args: unknown, event: KeyboardEvent | null): boolean | void | Promise<unknown> {
+    const command = this.commands.get(commandId);
+    if (!command) return false;
+    return command.handler(args, event);
+  }
+
+  getCommand(commandId: string): RegisteredCommand | undefined {
+    return this.commands.get(commandId);
+  }
+
+  getCommands(): RegisteredCommand[] {
+    return Array.from(this.commands.values());
+  }
+
+  // Key bindings (across all components) that run a command
+  getCommandBindings(commandId: string): RegisteredShortcut[] {
+    const bindings: RegisteredShortcut[] = [];
+    this.shortcuts.forEach(shortcuts => {
+      bindings.push(...shortcuts.filter(s => s.command === commandId));
+    });
+    return bindings;
+  }
+
+  // Emit events to listeners
+  private emit(event: Omit<ManagerEvent, 'timestamp'>): void {
+    if (ARIA_SYNC_EVENTS.includes(event.type)) {
+      this.scheduleAriaSync();
+    }
+    const stamped: ManagerEvent = { ...event, timestamp: Date.now() };
+    this.eventListeners.forEach(listener => listener(stamped));
+  }
+
+  // Description and keys of a shortcut, for announcements
+  private describeShortcut(shortcut: RegisteredShortcut): string {
+    const keys = keyCombinationToString(shortcut.keys, this.getPlatform());
+    return shortcut.description ? `${shortcut.description} (${keys})` : keys;
+  }
+
+  // Sync aria-keyshortcuts once after a burst of registry changes (e.g. a list of rows mounting)
+  private scheduleAriaSync(): void {
+    if (this.ariaSyncPending) return;
+    // Nothing to set and nothing to restore
+    if (this.targetedShortcuts.size === 0 && this.ariaElements.size === 0) return;
+
+    this.ariaSyncPending = true;
+    Promise.resolve().then(() => {
+      this.ariaSyncPending = false;
+      this.syncAriaKeyShortcuts();
+    });
+  }
+
+  // Set aria-keyshortcuts on every element shortcuts are scoped to, and restore the rest
+  private syncAriaKeyShortcuts(): void {
+    const platform = this.getPlatform();
+    const values = new Map<Element, string[]>();
+
+    if (this.options.ariaKeyShortcuts) {
+      this.sortByRegistration(Array.from(this.targetedShortcuts)).forEach(shortcut => {
+        if (!shortcut.target || !shortcut.enabled) return;
+
+        const element = resolveTarget(shortcut.target);
+        const value = toAriaKeyShortcuts(shortcut.keys, platform);
+        if (!element || !value) return;
+
+        const list = values.get(element) || [];
+        if (!list.includes(value)) list.push(value);
+        values.set(element, list);
+      });
+    }
+
+    this.ariaElements.forEach((original, element) => {
+      if (values.has(element)) return;
+      if (original === null) {
+        element.removeAttribute('aria-keyshortcuts');
+      } else {
+        element.setAttribute('aria-keyshortcuts', original);
+      }
+      this.ariaElements.delete(element);
+    });
+
+    values.forEach((list, element) => {
+      if (!this.ariaElements.has(element)) {
+        this.ariaElements.set(element, element.getAttribute('aria-keyshortcuts'));
+      }
+      // Keep any value the element was given by its author
+      const original = this.ariaElements.get(element);
+      element.setAttribute('aria-keyshortcuts', [original, ...list].filter(Boolean).join(' '));
+    });
+  }
+
+  // Subscribe to manager events
+  subscribe(listener: ManagerEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  // Register shortcuts for a component
+  register(componentId: string, definitions: ShortcutDefinition[]): string[] {
+    const newShortcuts: RegisteredShortcut[] = definitions.map(def => {
+      const defaultKeys = typeof def.keys === 'string'
+        ? parseKeyBinding(def.keys)
+        : def.keys;
+
+      const { command, args } = def;
+      const callback = command !== undefined
+        // Look the command up at dispatch time so it can be registered after its bindings
+        ? (event: KeyboardEvent) => this.runCommand(command, args, event)
+        : def.callback;
+      if (!callback) {
+        throw new Error(`Shortcut "${keyCombinationToString(defaultKeys)}" needs a callback or a command`);
+      }
+
+      const defaultWhen = def.options?.when || undefined;
+      return {
+        id: def.id ?? generateId(),
+        componentId,
+        // Apply the user's override so rebinding survives remounts
+        keys: this.getOverride(componentId, defaultKeys) || defaultKeys,
+        defaultKeys,
+        defaultWhen,
+        callback,
+        command,
+        args,
+        description: def.options?.description || '',
+        category: def.options?.category,
+        enabled: def.options?.enabled !== false,
+        preventDefault: def.options?.preventDefault !== false,
+        stopPropagation: def.options?.stopPropagation || false,
+        priority: def.options?.priority ?? 0,
+        registeredAt: Date.now(),
+        scope: def.options?.scope,
+        target: def.options?.target,
+        focusWithin: def.options?.focusWithin || false,
+        allowIn: def.options?.allowIn || 'with-modifiers',
+        match: def.options?.match,
+        trigger: def.options?.trigger || 'keydown',
+        repeat: def.options?.repeat !== false,
+        onRelease: def.options?.onRelease,
+        when: this.resolveWhen(componentId, defaultKeys, defaultWhen),
+        concurrency: def.options?.concurrency || 'ignore',
+      };
+    });
+
+    // Parse when clauses up front, so an invalid one fails the whole registration
+    const predicates = newShortcuts.map(shortcut => shortcut.when ? parseWhenClause(shortcut.when) : null);
+
+    const ids = new Set(newShortcuts.map(shortcut => shortcut.id));
+    if (ids.size < newShortcuts.length) {
+      throw new Error('Shortcut IDs must be unique within one register() call');
+    }
+
+    // Detect conflicts before mutating so the 'error' policy leaves no partial registration
+    const conflicts = this.detectConflicts(newShortcuts);
+
+    // Registering a caller-supplied ID again replaces the earlier shortcut
+    const replaced = newShortcuts
+      .map(shortcut => this.shortcutsById.get(shortcut.id))
+      .filter((shortcut): shortcut is RegisteredShortcut => shortcut !== undefined);
+    if (replaced.length > 0) {
+      replaced.forEach(shortcut => this.removeShortcut(shortcut));
+      this.prunePendingSequence();
+    }
+
+    if (!this.shortcuts.has(componentId)) {
+      this.shortcuts.set(componentId, []);
+    }
+
+    const componentShortcuts = this.shortcuts.get(componentId)!;
+    newShortcuts.forEach((shortcut, index) => {
+      const predicate = predicates[index];
+      if (predicate) this.whenPredicates.set(shortcut, predicate);
+    });
+
+    for (const shortcut of newShortcuts) {
+      this.registrationOrder.set(shortcut, ++this.registrationCount);
+      componentShortcuts.push(shortcut);
+      this.indexShortcut(shortcut);
+      this.shortcutsById.set(shortcut.id, shortcut);
+    }
+    const registeredIds = newShortcuts.map(shortcut => shortcut.id);
+
+    this.startListening();
+
+    this.reportConflicts(componentId, conflicts);
+    this.emit({ type: 'register', componentId, keys: registeredIds });
+
+    return registeredIds;
+  }
+
+  // Conflicts the given shortcuts would cause; throws under the 'error' policy
+  private detectConflicts(shortcuts: RegisteredShortcut[]): ShortcutConflict[] {
+    const conflicts: ShortcutConflict[] = [];
+    // Shortcuts with the same IDs are being replaced, so they can't conflict
+    const ids = new Set(shortcuts.map(shortcut => shortcut.id));
+    for (const shortcut of shortcuts) {
+      const existing = this.findConflicting(shortcut).filter(other => !ids.has(other.id));
+      if (existing.length > 0) {
+        conflicts.push({
+          keyString: keyCombinationToString(shortcut.keys, this.getPlatform()),
+          scope: shortcut.scope,
+          shortcuts: [...existing, shortcut],
+        });
+      }
+    }
+
+    if (conflicts.length > 0 && this.options.conflictPolicy === 'error') {
+      throw new ShortcutConflictError(conflicts[0]);
+    }
+    return conflicts;
+  }
+
+  // Warn (per policy) and emit conflict events
+  private reportConflicts(componentId: string, conflicts: ShortcutConflict[]): void {
+    for (const conflict of conflicts) {
+      if (this.options.conflictPolicy === 'warn') {
+        const owners = conflict.shortcuts.map(s => this.getComponentLabel(s.componentId)).join(', ');
+        console.warn(`[react-keyboard-shortcuts] "${conflict.keyString}" is registered by multiple components: ${owners}`);
+      }
+      this.emit({ type: 'conflict', componentId, keys: [conflict.keyString], scope: conflict.scope, conflict });
+    }
+  }
+
+  // User override for a default binding, if any (component overrides beat '*' overrides)
+  private getOverride(componentId: string, defaultKeys: KeyBinding): KeyBinding | undefined {
+    const defaultKeyString = keyCombinationToString(defaultKeys);
+    const keyString = this.overrides[componentId]?.[defaultKeyString]
+      ?? this.overrides['*']?.[defaultKeyString];
+    return keyString === undefined ? undefined : parseKeyBinding(keyString);
+  }
+
+  // When clause a shortcut uses: a keymap's override of its default binding, or its own
+  private resolveWhen(componentId: string, defaultKeys: KeyBinding, defaultWhen: string | undefined): string | undefined {
+    const defaultKeyString = keyCombinationToString(defaultKeys);
+    const when = this.whenOverrides[componentId]?.[defaultKeyString]
+      ?? this.whenOverrides['*']?.[defaultKeyString];
+    return when === undefined ? defaultWhen : when || undefined;
+  }
+
+  // Change a shortcut's effective when clause (already validated)
+  private setWhen(shortcut: RegisteredShortcut, when: string | undefined): void {
+    shortcut.when = when;
+    if (when) {
+      this.whenPredicates.set(shortcut, parseWhenClause(when));
+    } else {
+      this.whenPredicates.delete(shortcut);
+    }
+  }
+
+  // Load overrides from storage and apply them to registered shortcuts
+  private loadOverrides(): void {
+    const storage = this.options.storage;
+    if (!storage) return;
+
+    const apply = (overrides: KeybindingOverrides | null) => {
+      // Ignore results from a storage that has since been replaced
+      if (this.options.storage === storage) {
+        this.applyOverrides(overrides || {});
+      }
+    };
+
+    const result = storage.load();
+    if (result && typeof (result as Promise<KeybindingOverrides | null>).then === 'function') {
+      (result as Promise<KeybindingOverrides | null>).then(apply, error => {
+        console.warn('[react-keyboard-shortcuts] Failed to load keybindings:', error);
+      });
+    } else {
+      apply(result as KeybindingOverrides | null);
+    }
+  }
+
+  // Replace all overrides and re-derive every shortcut's keys
+  private applyOverrides(overrides: KeybindingOverrides): void {
+    this.overrides = overrides;
+    this.resetSequence();
+
+    this.shortcuts.forEach((shortcuts, componentId) => {
+      shortcuts.forEach(shortcut => {
+        shortcut.keys = this.getOverride(componentId, shortcut.defaultKeys) || shortcut.defaultKeys;
+      });
+    });
+    this.rebuildIndex();
+
+    this.shortcuts.forEach((shortcuts, componentId) => {
+      this.emit({ type: 'rebind', componentId, keys: shortcuts.map(s => s.id) });
+    });
+  }
+
+  // Save overrides through the storage adapter
+  private persistOverrides(): void {
+    const storage = this.options.storage;
+    if (!storage) return;
+
+    Promise.resolve()
+      .then(() => storage.save(this.getBindingOverrides()))
+      .catch(error => {
+        console.warn('[react-keyboard-shortcuts] Failed to save keybindings:', error);
+      });
+  }
+
+  // Default key string of a shortcut, looked up by shortcut ID or by its default keys
+  private findDefaultKeyString(componentId: string, shortcutId: string): string {
+    const shortcut = this.getComponentKeys(componentId).find(s => s.id === shortcutId);
+    return keyCombinationToString(shortcut ? shortcut.defaultKeys : parseKeyBinding(shortcutId));
+  }
+
+  // Rebind a shortcut for the user. `shortcutId` is a registered ID or the default key string
+  // (use the key string for components that aren't mounted). The override is persisted and
+  // applied again whenever the component re-registers.
+  rebind(componentId: string, shortcutId: string, newKeys: string | KeyBinding): void {
+    const defaultKeyString = this.findDefaultKeyString(componentId, shortcutId);
+    const keys = typeof newKeys === 'string' ? parseKeyBinding(newKeys) : newKeys;
+    const keyString = keyCombinationToString(keys);
+
+    // A '*' override re-keys every component that hasn't overridden the binding itself
+    const affected = componentId === '*'
+      ? Array.from(this.shortcutsById.values()).filter(s =>
+        keyCombinationToString(s.defaultKeys) === defaultKeyString &&
+        this.overrides[s.componentId]?.[defaultKeyString] === undefined)
+      : this.getComponentKeys(componentId)
+        .filter(s => keyCombinationToString(s.defaultKeys) === defaultKeyString);
+    const conflicts = this.detectConflicts(affected.map(s => ({ ...s, keys })));
+
+    affected.forEach(shortcut => {
+      this.unindexShortcut(shortcut);
+      shortcut.keys = keys;
+      this.indexShortcut(shortcut);
+    });
+
+    const componentOverrides = { ...this.overrides[componentId] };
+    const wildcard = componentId !== '*' && this.overrides['*']?.[defaultKeyString] !== undefined;
+    if (keyString === defaultKeyString && !wildcard) {
+      delete componentOverrides[defaultKeyString];
+    } else {
+      componentOverrides[defaultKeyString] = keyString;
+    }
+    this.overrides = { ...this.overrides, [componentId]: componentOverrides };
+    if (Object.keys(componentOverrides).length === 0) {
+      delete this.overrides[componentId];
+    }
+
+    this.resetSequence();
+    this.persistOverrides();
+    this.reportConflicts(componentId, conflicts);
+
+    // A '*' rebind is reported for each component it re-keyed
+    const componentIds = componentId === '*' && affected.length > 0
+      ? Array.from(new Set(affected.map(s => s.componentId)))
+      : [componentId];
+    componentIds.forEach(id => {
+      this.emit({ type: 'rebind', componentId: id, keys: affected.filter(s => s.componentId === id).map(s => s.id) });
+    });
+  }
+
+  // Restore a shortcut's default binding
+  resetBinding(componentId: string, shortcutId: string): void {
+    const defaultKeyString = this.findDefaultKeyString(componentId, shortcutId);
+    this.rebind(componentId, defaultKeyString, defaultKeyString);
+  }
+
+  // Restore every default binding and clear stored overrides
+  resetAll(): void {
+    this.setBindingOverrides({});
+  }
+
+  // Replace all overrides at once (e.g. when loading a keymap) and persist them
+  setBindingOverrides(overrides: KeybindingOverrides): void {
+    const copy: KeybindingOverrides = {};
+    Object.keys(overrides).forEach(componentId => {
+      copy[componentId] = { ...overrides[componentId] };
+    });
+    this.applyOverrides(copy);
+    this.persistOverrides();
+  }
+
+  // Replace the when clause overrides (e.g. when loading a keymap); throws on an invalid clause
+  setWhenOverrides(overrides: WhenOverrides): void {
+    const copy: WhenOverrides = {};
+    Object.keys(overrides).forEach(componentId => {
+      copy[componentId] = { ...overrides[componentId] };
+      Object.keys(copy[componentId]).forEach(keyString => {
+        const when = copy[componentId][keyString];
+        if (when) parseWhenClause(when);
+      });
+    });
+    this.whenOverrides = copy;
+
+    this.shortcuts.forEach((shortcuts, componentId) => {
+      const changed = shortcuts.filter(shortcut => {
+        const when = this.resolveWhen(componentId, shortcut.defaultKeys, shortcut.defaultWhen);
+        if (when === shortcut.when) return false;
+        this.setWhen(shortcut, when);
+        return true;
+      });
+      if (changed.length > 0) {
+        this.emit({ type: 'update', componentId, keys: changed.map(s => s.id) });
+      }
+    });
+    this.prunePendingSequence();
+  }
+
+  // Get the when clause overrides (componentId → default key string → when clause)
+  getWhenOverrides(): WhenOverrides {
+    const copy: WhenOverrides = {};
+    Object.keys(this.whenOverrides).forEach(componentId => {
+      copy[componentId] = { ...this.whenOverrides[componentId] };
+    });
+    return copy;
+  }
+
+  // Get the user's overrides (componentId → default key string → user key string)
+  getBindingOverrides(): KeybindingOverrides {
+    const copy: KeybindingOverrides = {};
+    Object.keys(this.overrides).forEach(componentId => {
+      copy[componentId] = { ...this.overrides[componentId] };
+    });
+    return copy;
+  }
+
+  // Deregister specific shortcuts from a component
+  deregister(componentId: string, keyStrings: string[]): void {
+    const componentShortcuts = this.shortcuts.get(componentId);
+    if (!componentShortcuts) return;
+
+    const wanted = toKeyStringSet(keyStrings);
+
+    const remaining = componentShortcuts.filter(shortcut => {
+      if (!matchesAnyKeyString(shortcut, wanted)) return true;
+
+      this.unindexShortcut(shortcut);
+      this.shortcutsById.delete(shortcut.id);
+      this.cancelRun(shortcut);
+      return false;
+    });
+
+    if (remaining.length === 0) {
+      this.shortcuts.delete(componentId);
+    } else {
+      this.shortcuts.set(componentId, remaining);
+    }
+    this.prunePendingSequence();
+
+    // Stop listening if no shortcuts remain
+    if (this.shortcuts.size === 0) {
+      this.stopListening();
+    }
+
+    this.emit({ type: 'deregister', componentId, keys: keyStrings });
+  }
+
+  // Enable specific shortcuts for a component
+  enable(componentId: string, keyStrings: string[]): void {
+    const componentShortcuts = this.shortcuts.get(componentId);
+    if (!componentShortcuts) return;
+
+    const wanted = toKeyStringSet(keyStrings);
+
+    componentShortcuts.forEach(shortcut => {
+      if (matchesAnyKeyString(shortcut, wanted)) {
+        shortcut.enabled = true;
+      }
+    });
+
+    this.emit({ type: 'enable', componentId, keys: keyStrings });
+  }
+
+  // Disable specific shortcuts for a component (keep registered)
+  disable(componentId: string, keyStrings: string[]): void {
+    const componentShortcuts = this.shortcuts.get(componentId);
+    if (!componentShortcuts) return;
+
+    const wanted = toKeyStringSet(keyStrings);
+
+    componentShortcuts.forEach(shortcut => {
+      if (matchesAnyKeyString(shortcut, wanted)) {
+        if (shortcut.enabled) {
+          this.options.announcer?.announce(`${this.describeShortcut(shortcut)} disabled`);
+        }
+        shortcut.enabled = false;
+      }
+    });
+    this.prunePendingSequence();
+
+    this.emit({ type: 'disable', componentId, keys: keyStrings });
+  }
+
+  // Clear all shortcuts for a component
+  clearComponent(componentId: string): void {
+    this.shortcuts.get(componentId)?.forEach(shortcut => {
+      this.unindexShortcut(shortcut);
+      this.shortcutsById.delete(shortcut.id);
+      this.cancelRun(shortcut);
+    });
+    this.shortcuts.delete(componentId);
+    this.prunePendingSequence();
+
+    if (this.shortcuts.size === 0) {
+      this.stopListening();
+    }
+
+    this.emit({ type: 'clear', componentId });
+  }
+
+  // Take one shortcut out of the registry and its indexes
+  private removeShortcut(shortcut: RegisteredShortcut): void {
+    const remaining = (this.shortcuts.get(shortcut.componentId) || []).filter(s => s !== shortcut);
+    if (remaining.length === 0) {
+      this.shortcuts.delete(shortcut.componentId);
+    } else {
+      this.shortcuts.set(shortcut.componentId, remaining);
+    }
+    this.unindexShortcut(shortcut);
+    this.shortcutsById.delete(shortcut.id);
+  }
+
+  // Register one shortcut and get a handle to manage it
+  registerShortcut(componentId: string, definition: ShortcutDefinition): ShortcutHandle {
+    const [id] = this.register(componentId, [definition]);
+    return this.getHandle(id);
+  }
+
+  // Handle for a shortcut ID; it acts on whichever shortcut is registered under the ID
+  getHandle(id: string): ShortcutHandle {
+    return {
+      id,
+      enable: () => { this.enableById(id); },
+      disable: () => { this.disableById(id); },
+      update: (changes: ShortcutUpdate) => { this.updateById(id, changes); },
+      dispose: () => { this.deregisterById(id); },
+      get: () => this.getShortcutById(id),
+    };
+  }
+
+  // Get a registered shortcut by ID
+  getShortcutById(id: string): RegisteredShortcut | undefined {
+    return this.shortcutsById.get(id);
+  }
+
+  // Deregister one shortcut; returns false if no shortcut has the ID
+  deregisterById(id: string): boolean {
+    const shortcut = this.shortcutsById.get(id);
+    if (!shortcut) return false;
+
+    this.removeShortcut(shortcut);
+    this.cancelRun(shortcut);
+    this.prunePendingSequence();
+
+    if (this.shortcuts.size === 0) {
+      this.stopListening();
+    }
+
+    this.emit({ type: 'deregister', componentId: shortcut.componentId, keys: [keyCombinationToString(shortcut.keys)] });
+    return true;
+  }
+
+  // Enable one shortcut; returns false if no shortcut has the ID
+  enableById(id: string): boolean {
+    const shortcut = this.shortcutsById.get(id);
+    if (!shortcut) return false;
+
+    shortcut.enabled = true;
+    this.emit({ type: 'enable', componentId: shortcut.componentId, keys: [keyCombinationToString(shortcut.keys)] });
+    return true;
+  }
+
+  // Disable one shortcut (keep registered); returns false if no shortcut has the ID
+  disableById(id: string): boolean {
+    const shortcut = this.shortcutsById.get(id);
+    if (!shortcut) return false;
+
+    if (shortcut.enabled) {
+      this.options.announcer?.announce(`${this.describeShortcut(shortcut)} disabled`);
+    }
+    shortcut.enabled = false;
+    this.prunePendingSequence();
+
+    this.emit({ type: 'disable', componentId: shortcut.componentId, keys: [keyCombinationToString(shortcut.keys)] });
+    return true;
+  }
+
+  // Change one shortcut's callback, description, category or source keys; returns false if no shortcut has the ID
+  updateById(id: string, changes: ShortcutUpdate): boolean {
+    const shortcut = this.shortcutsById.get(id);
+    if (!shortcut) return false;
+
+    // Validate and check conflicts first, so a rejected update leaves the shortcut unchanged
+    if (changes.when) parseWhenClause(changes.when);
+
+    let keys: KeyBinding | undefined;
+    let defaultKeys: KeyBinding | undefined;
+    let conflicts: ShortcutConflict[] = [];
+    if (changes.keys !== undefined) {
+      defaultKeys = typeof changes.keys === 'string' ? parseKeyBinding(changes.keys) : changes.keys;
+      keys = this.getOverride(shortcut.componentId, defaultKeys) || defaultKeys;
+      conflicts = this.detectConflicts([{ ...shortcut, keys }]);
+    }
+
+    if (changes.callback) {
+      shortcut.callback = changes.callback;
+      shortcut.command = undefined;
+      shortcut.args = undefined;
+    }
+    if (changes.description !== undefined) shortcut.description = changes.description;
+    if (changes.category !== undefined) shortcut.category = changes.category;
+    if (changes.when !== undefined) {
+      shortcut.defaultWhen = changes.when || undefined;
+      this.setWhen(shortcut, this.resolveWhen(shortcut.componentId, shortcut.defaultKeys, shortcut.defaultWhen));
+      this.prunePendingSequence();
+    }
+
+    if (keys && defaultKeys) {
+      this.unindexShortcut(shortcut);
+      shortcut.defaultKeys = defaultKeys;
+      shortcut.keys = keys;
+      this.indexShortcut(shortcut);
+      // A keymap's when clause is keyed by the default binding too
+      this.setWhen(shortcut, this.resolveWhen(shortcut.componentId, defaultKeys, shortcut.defaultWhen));
+      this.resetSequence();
+    }
+
+    this.reportConflicts(shortcut.componentId, conflicts);
+    this.emit({ type: 'update', componentId: shortcut.componentId, keys: [id] });
+    return true;
+  }
+
+  // Get all registered keys for a component
+  getComponentKeys(componentId: string): RegisteredShortcut[] {
+    return this.shortcuts.get(componentId) || [];
+  }
+
+  // Get all registered shortcuts across all components
+  getAllShortcuts(): Map<string, RegisteredShortcut[]> {
+    return new Map(this.getComponentIds().map(id => [id, this.shortcuts.get(id)!]));
+  }
+
+  // Get list of all supported keys
+  getAllAvailableKeys(): readonly string[] {
+    return SUPPORTED_KEYS;
+  }
+
+  // Get all component IDs, in display order
+  getComponentIds(): string[] {
+    const order = (id: string) => this.componentMeta.get(id)?.order ?? 0;
+    return Array.from(this.shortcuts.keys()).sort((a, b) => order(a) - order(b));
+  }
+
+  // Set display metadata for a component (merged with what was set before)
+  registerComponent(componentId: string, meta: ComponentMeta): void {
+    this.componentMeta.set(componentId, { ...this.componentMeta.get(componentId), ...meta });
+    this.emit({ type: 'registerComponent', componentId });
+  }
+
+  unregisterComponent(componentId: string): void {
+    if (this.componentMeta.delete(componentId)) {
+      this.emit({ type: 'registerComponent', componentId });
+    }
+  }
+
+  getComponentMeta(componentId: string): ComponentMeta | undefined {
+    return this.componentMeta.get(componentId);
+  }
+
+  // Human-readable name for a component, falling back to its ID
+  getComponentLabel(componentId: string): string {
+    return this.componentMeta.get(componentId)?.label || componentId;
   }
 
   // Check if a component has registered shortcuts
@@ -344,7 +2296,25 @@ class KeyboardShortcutManager {
   // Destroy the manager
   destroy(): void {
     this.stopListening();
+    this.listenTargets.clear();
+    this.debugCount = 0;
+    this.debugLog = [];
     this.shortcuts.clear();
+    this.strokeIndex.clear();
+    this.slotIndex.clear();
+    this.targetedShortcuts.clear();
+    this.shortcutsById.clear();
+    this.abortControllers.forEach(controller => controller.abort());
+    this.abortControllers.clear();
+    this.runs.clear();
+    this.context.clear();
+    this.syncAriaKeyShortcuts();
+    this.scopes = [];
+    this.suspendCount = 0;
+    this.commands.clear();
+    this.componentMeta.clear();
+    this.overrides = {};
+    this.whenOverrides = {};
     this.eventListeners.clear();
   }
 }
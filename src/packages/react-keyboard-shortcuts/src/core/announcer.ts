@@ -0,0 +1,52 @@
+import { ShortcutAnnouncer } from '../types';
+
+// Visually hidden but still read by screen readers
+const VISUALLY_HIDDEN = [
+  'position:absolute',
+  'width:1px',
+  'height:1px',
+  'padding:0',
+  'margin:-1px',
+  'overflow:hidden',
+  'clip:rect(0,0,0,0)',
+  'white-space:nowrap',
+  'border:0',
+].join(';');
+
+// Announce messages through a polite live region appended to document.body
+export const createLiveAnnouncer = (politeness: 'polite' | 'assertive' = 'polite'): ShortcutAnnouncer & { destroy: () => void } => {
+  let region: HTMLElement | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const getRegion = (): HTMLElement | null => {
+    if (typeof document === 'undefined') return null;
+    if (!region || !region.isConnected) {
+      region = document.createElement('div');
+      region.setAttribute('role', politeness === 'assertive' ? 'alert' : 'status');
+      region.setAttribute('aria-live', politeness);
+      region.setAttribute('aria-atomic', 'true');
+      region.setAttribute('style', VISUALLY_HIDDEN);
+      document.body.appendChild(region);
+    }
+    return region;
+  };
+
+  return {
+    announce: (message) => {
+      const target = getRegion();
+      if (!target) return;
+
+      // Clear first so repeating the same message is announced again
+      target.textContent = '';
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        target.textContent = message;
+      }, 50);
+    },
+    destroy: () => {
+      if (timer) clearTimeout(timer);
+      region?.remove();
+      region = null;
+    },
+  };
+};
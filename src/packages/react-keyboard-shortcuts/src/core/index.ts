@@ -2,6 +2,32 @@ export {
   default as KeyboardShortcutManager,
   getShortcutManager,
   resetShortcutManager,
+  ShortcutConflictError,
   parseKeyString,
+  parseKeySequence,
+  parseKeyBinding,
+  toKeySequence,
+  isEditableElement,
+  isDispatchEvent,
   keyCombinationToString,
+  resolveModifiers,
+  detectPlatform,
+  setKeyboardLayout,
+  loadKeyboardLayout,
+  eventToKeyCombination,
+  isSupportedKeyCombination,
+  toAriaKeyShortcuts,
 } from './KeyboardShortcutManager';
+export { parseWhenClause } from './when';
+export {
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  DEFAULT_STORAGE_KEY,
+} from './storage';
+export { createLiveAnnouncer } from './announcer';
+export {
+  exportKeymap,
+  importKeymap,
+  KEYMAP_VERSION,
+  KEYMAP_PRESETS,
+} from './keymap';
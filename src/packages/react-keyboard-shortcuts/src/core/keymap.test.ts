@@ -0,0 +1,139 @@
+import KeyboardShortcutManager from './KeyboardShortcutManager';
+import { exportKeymap, importKeymap, KEYMAP_PRESETS } from './keymap';
+
+const keyDown = (init: KeyboardEventInit): void => {
+  window.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+};
+
+let manager: KeyboardShortcutManager;
+
+beforeEach(() => {
+  manager = new KeyboardShortcutManager({ detectPlatform: () => 'other' });
+});
+
+afterEach(() => {
+  manager.destroy();
+});
+
+test('exports current bindings and imports them into another manager', () => {
+  manager.register('editor', [
+    { keys: 'Ctrl+S', callback: jest.fn(), options: { description: 'Save', when: 'editorFocused' } },
+  ]);
+  manager.rebind('editor', 'Ctrl+S', 'Ctrl+Alt+S');
+
+  const keymap = exportKeymap(manager, 'mine');
+  expect(keymap).toEqual({
+    version: 1,
+    name: 'mine',
+    entries: [{ component: 'editor', shortcut: 'Ctrl+S', keys: 'Ctrl+Alt+S', description: 'Save', when: 'editorFocused' }],
+  });
+
+  const other = new KeyboardShortcutManager({ detectPlatform: () => 'other' });
+  const callback = jest.fn();
+  other.register('editor', [{ keys: 'Ctrl+S', callback }]);
+  const result = importKeymap(other, JSON.parse(JSON.stringify(keymap)));
+
+  expect(result.applied).toHaveLength(1);
+  expect(other.getComponentKeys('editor')[0].when).toBe('editorFocused');
+  other.setContext('editorFocused', true);
+  keyDown({ key: 's', ctrlKey: true, altKey: true });
+  expect(callback).toHaveBeenCalledTimes(1);
+  other.destroy();
+});
+
+test('reports unknown and invalid entries', () => {
+  manager.register('editor', [{ keys: 'Ctrl+S', callback: jest.fn() }]);
+
+  const result = importKeymap(manager, {
+    version: 1,
+    entries: [
+      { component: 'editor', shortcut: 'Ctrl+S', keys: 'Ctrl+Alt+S' },
+      { component: 'sidebar', shortcut: 'B', keys: 'Ctrl+B' },
+      { component: 'editor', shortcut: 'Ctrl+S', keys: '' },
+      { component: 'editor', shortcut: 'Ctrl+S', keys: 'Ctrl+Alt+S', when: 'a ||' },
+      { shortcut: 'Ctrl+S', keys: 'Ctrl+Alt+S' },
+    ],
+  });
+
+  expect(result.applied).toHaveLength(1);
+  expect(result.unknown.map(entry => entry.component)).toEqual(['sidebar']);
+  expect(result.invalid.map(({ reason }) => reason)).toEqual([
+    'Invalid keys ""',
+    'Invalid when clause "a ||"',
+    'Missing component or command',
+  ]);
+});
+
+test('unknown entries apply when the component mounts, unless strict', () => {
+  importKeymap(manager, {
+    version: 1,
+    entries: [{ component: 'sidebar', shortcut: 'B', keys: 'Ctrl+B', when: 'sidebarVisible' }],
+  });
+
+  manager.register('sidebar', [{ keys: 'B', callback: jest.fn() }]);
+  const [shortcut] = manager.getComponentKeys('sidebar');
+  expect(manager.getBindingOverrides()).toEqual({ sidebar: { B: 'Ctrl+B' } });
+  expect(shortcut.when).toBe('sidebarVisible');
+
+  importKeymap(manager, {
+    version: 1,
+    entries: [{ component: 'toolbar', shortcut: 'T', keys: 'Ctrl+T' }],
+  }, { strict: true });
+  expect(manager.getBindingOverrides()).toEqual({});
+  // Replacing the keymap also drops its when clauses
+  expect(shortcut.when).toBeUndefined();
+});
+
+test('command entries apply to the command\'s registered bindings', () => {
+  const save = jest.fn();
+  manager.registerCommand('file.save', save);
+  manager.register('editor', [{ keys: 'Ctrl+S', command: 'file.save' }]);
+  manager.register('toolbar', [{ keys: 'Ctrl+S', command: 'file.save' }]);
+
+  const result = importKeymap(manager, {
+    version: 1,
+    entries: [
+      { command: 'file.save', keys: 'Ctrl+Shift+S' },
+      { command: 'file.print', keys: 'Ctrl+P' },
+    ],
+  });
+
+  expect(result.applied).toHaveLength(1);
+  expect(result.unknown.map(entry => entry.command)).toEqual(['file.print']);
+  expect(manager.getBindingOverrides()).toEqual({
+    editor: { 'Ctrl+S': 'Ctrl+Shift+S' },
+    toolbar: { 'Ctrl+S': 'Ctrl+Shift+S' },
+  });
+});
+
+test('merge keeps existing overrides', () => {
+  manager.register('editor', [
+    { keys: 'Ctrl+S', callback: jest.fn() },
+    { keys: 'Ctrl+O', callback: jest.fn() },
+  ]);
+  manager.rebind('editor', 'Ctrl+S', 'Ctrl+Alt+S');
+
+  importKeymap(manager, {
+    version: 1,
+    entries: [{ component: 'editor', shortcut: 'Ctrl+O', keys: 'Ctrl+Alt+O' }],
+  }, { merge: true });
+
+  expect(manager.getBindingOverrides()).toEqual({ editor: { 'Ctrl+S': 'Ctrl+Alt+S', 'Ctrl+O': 'Ctrl+Alt+O' } });
+});
+
+test('presets remap every component', () => {
+  const down = jest.fn();
+  manager.register('list', [{ keys: 'ArrowDown', callback: down }]);
+
+  importKeymap(manager, KEYMAP_PRESETS.vim);
+  keyDown({ key: 'j' });
+  expect(down).toHaveBeenCalledTimes(1);
+
+  importKeymap(manager, KEYMAP_PRESETS.default);
+  keyDown({ key: 'ArrowDown' });
+  expect(down).toHaveBeenCalledTimes(2);
+});
+
+test('rejects unsupported versions', () => {
+  expect(() => importKeymap(manager, { version: 2, entries: [] })).toThrow(/Unsupported keymap/);
+});
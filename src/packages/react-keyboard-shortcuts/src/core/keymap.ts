@@ -0,0 +1,203 @@
+import KeyboardShortcutManager, {
+  parseKeyBinding,
+  keyCombinationToString,
+  toKeySequence,
+} from './KeyboardShortcutManager';
+import { parseWhenClause } from './when';
+import {
+  Keymap,
+  KeymapEntry,
+  KeymapImportOptions,
+  KeymapImportResult,
+  KeybindingOverrides,
+  WhenOverrides,
+} from '../types';
+
+// Current keymap document version
+export const KEYMAP_VERSION = 1;
+
+// Wildcard component ID: the entry applies to every component with that default binding
+const ANY_COMPONENT = '*';
+
+// Normalize a key string, or return null if it doesn't describe a usable binding
+const normalizeKeyString = (keyString: unknown): string | null => {
+  if (typeof keyString !== 'string' || keyString.trim() === '') return null;
+
+  const binding = parseKeyBinding(keyString);
+  return toKeySequence(binding).every(combo => combo.key !== '')
+    ? keyCombinationToString(binding)
+    : null;
+};
+
+// Check that a when clause parses
+const isValidWhen = (when: unknown): boolean => {
+  if (typeof when !== 'string') return false;
+  try {
+    if (when) parseWhenClause(when);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Serialize the manager's current bindings to a keymap document
+export const exportKeymap = (manager: KeyboardShortcutManager, name?: string): Keymap => {
+  const entries: KeymapEntry[] = [];
+  const seen = new Set<string>();
+
+  manager.getAllShortcuts().forEach((shortcuts, componentId) => {
+    shortcuts.forEach(shortcut => {
+      const defaultKeyString = keyCombinationToString(shortcut.defaultKeys);
+      const entryKey = `${componentId}|${defaultKeyString}`;
+      if (seen.has(entryKey)) return;
+      seen.add(entryKey);
+
+      entries.push({
+        component: componentId,
+        shortcut: defaultKeyString,
+        keys: keyCombinationToString(shortcut.keys),
+        ...(shortcut.description ? { description: shortcut.description } : {}),
+        ...(shortcut.command ? { command: shortcut.command } : {}),
+        ...(shortcut.when ? { when: shortcut.when } : {}),
+        ...(manager.getComponentMeta(componentId)?.label ? { componentLabel: manager.getComponentLabel(componentId) } : {}),
+      });
+    });
+  });
+
+  return { version: KEYMAP_VERSION, ...(name ? { name } : {}), entries };
+};
+
+// Load a keymap document into the manager's overrides and report what didn't match
+export const importKeymap = (
+  manager: KeyboardShortcutManager,
+  keymap: Keymap,
+  options: KeymapImportOptions = {}
+): KeymapImportResult => {
+  if (!keymap || keymap.version !== KEYMAP_VERSION || !Array.isArray(keymap.entries)) {
+    throw new Error(`Unsupported keymap: expected version ${KEYMAP_VERSION} with an entries array`);
+  }
+
+  const result: KeymapImportResult = { applied: [], unknown: [], invalid: [] };
+  const overrides: KeybindingOverrides = options.merge ? manager.getBindingOverrides() : {};
+  const whenOverrides: WhenOverrides = options.merge ? manager.getWhenOverrides() : {};
+  const registered = manager.getAllShortcuts();
+
+  // Default key strings registered per component
+  const knownDefaults = (componentId: string): Set<string> => {
+    const defaults = new Set<string>();
+    registered.forEach((shortcuts, id) => {
+      if (componentId !== ANY_COMPONENT && id !== componentId) return;
+      shortcuts.forEach(s => defaults.add(keyCombinationToString(s.defaultKeys)));
+    });
+    return defaults;
+  };
+
+  // Component ID and default key string of each registered binding of a command
+  const commandBindings = (command: string, shortcut?: string): [string, string][] => {
+    const bindings: [string, string][] = [];
+    const seen = new Set<string>();
+    manager.getCommandBindings(command).forEach(s => {
+      const defaultKeyString = keyCombinationToString(s.defaultKeys);
+      const bindingKey = `${s.componentId}|${defaultKeyString}`;
+      if ((shortcut !== undefined && defaultKeyString !== shortcut) || seen.has(bindingKey)) return;
+      seen.add(bindingKey);
+      bindings.push([s.componentId, defaultKeyString]);
+    });
+    return bindings;
+  };
+
+  for (const entry of keymap.entries) {
+    const component = entry?.component;
+    const command = entry?.command;
+    // Without a component, the command identifies the bindings
+    const byCommand = !component && typeof command === 'string' && command !== '';
+    if (!entry || (!byCommand && (typeof component !== 'string' || component === ''))) {
+      result.invalid.push({ entry, reason: 'Missing component or command' });
+      continue;
+    }
+
+    // Command entries may leave out the default binding to remap all of the command's bindings
+    const shortcut = byCommand && entry.shortcut === undefined ? undefined : normalizeKeyString(entry.shortcut);
+    const keys = normalizeKeyString(entry.keys);
+    if (shortcut === null) {
+      result.invalid.push({ entry, reason: `Invalid shortcut "${entry.shortcut}"` });
+      continue;
+    }
+    if (!keys) {
+      result.invalid.push({ entry, reason: `Invalid keys "${entry.keys}"` });
+      continue;
+    }
+    if (entry.when !== undefined && !isValidWhen(entry.when)) {
+      result.invalid.push({ entry, reason: `Invalid when clause "${entry.when}"` });
+      continue;
+    }
+
+    let bindings: [string, string][];
+    if (byCommand) {
+      bindings = commandBindings(command, shortcut);
+      // Unregistered commands have no default binding to remember, so they can't apply on mount
+      if (bindings.length === 0) {
+        result.unknown.push(entry);
+        continue;
+      }
+      result.applied.push(entry);
+    } else {
+      bindings = [[component!, shortcut!]];
+      if (!knownDefaults(component!).has(shortcut!)) {
+        result.unknown.push(entry);
+        if (options.strict) continue;
+      } else {
+        result.applied.push(entry);
+      }
+    }
+
+    bindings.forEach(([componentId, defaultKeyString]) => {
+      overrides[componentId] = { ...overrides[componentId], [defaultKeyString]: keys };
+      if (entry.when !== undefined) {
+        whenOverrides[componentId] = { ...whenOverrides[componentId], [defaultKeyString]: entry.when };
+      }
+    });
+  }
+
+  manager.setWhenOverrides(whenOverrides);
+  manager.setBindingOverrides(overrides);
+  return result;
+};
+
+// Build a preset keymap that remaps default bindings for every component
+const preset = (name: string, bindings: Record<string, string>): Keymap => ({
+  version: KEYMAP_VERSION,
+  name,
+  entries: Object.keys(bindings).map(shortcut => ({
+    component: ANY_COMPONENT,
+    shortcut,
+    keys: bindings[shortcut],
+  })),
+});
+
+// Bundled presets; import one with importKeymap(manager, KEYMAP_PRESETS.vim)
+export const KEYMAP_PRESETS: Record<'default' | 'vscode' | 'vim', Keymap> = {
+  default: preset('default', {}),
+  vscode: preset('vscode', {
+    'Ctrl+Z': 'Mod+Z',
+    'Ctrl+Y': 'Mod+Shift+Z',
+    'Ctrl+S': 'Mod+S',
+    'Ctrl+F': 'Mod+F',
+    'Ctrl+K': 'Mod+P',
+    'Ctrl+A': 'Mod+A',
+    'Ctrl+C': 'Mod+C',
+    'Ctrl+V': 'Mod+V',
+    'Ctrl+X': 'Mod+X',
+  }),
+  vim: preset('vim', {
+    ArrowDown: 'J',
+    ArrowUp: 'K',
+    ArrowLeft: 'H',
+    ArrowRight: 'L',
+    Home: 'G G',
+    End: 'Shift+G',
+    PageDown: 'Ctrl+D',
+    PageUp: 'Ctrl+U',
+    Delete: 'D D',
+  }),
+};
@@ -0,0 +1,43 @@
+import { KeybindingOverrides, KeybindingStorage } from '../types';
+
+// Default localStorage key for persisted keybinding overrides
+export const DEFAULT_STORAGE_KEY = 'react-keyboard-shortcuts:keybindings';
+
+// Copy overrides so stored state can't be mutated from outside
+const cloneOverrides = (overrides: KeybindingOverrides): KeybindingOverrides => {
+  const copy: KeybindingOverrides = {};
+  Object.keys(overrides).forEach(componentId => {
+    copy[componentId] = { ...overrides[componentId] };
+  });
+  return copy;
+};
+
+// Persist overrides in localStorage (silently in-memory only where it is unavailable)
+export const createLocalStorageAdapter = (storageKey: string = DEFAULT_STORAGE_KEY): KeybindingStorage => ({
+  load: () => {
+    try {
+      const raw = window.localStorage.getItem(storageKey);
+      return raw ? JSON.parse(raw) as KeybindingOverrides : null;
+    } catch {
+      return null;
+    }
+  },
+  save: (overrides) => {
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(overrides));
+    } catch {
+      // Storage disabled or over quota: overrides still apply for this session
+    }
+  },
+});
+
+// Keep overrides in memory (useful for tests and server rendering)
+export const createMemoryStorageAdapter = (initial: KeybindingOverrides = {}): KeybindingStorage => {
+  let stored = cloneOverrides(initial);
+  return {
+    load: () => cloneOverrides(stored),
+    save: (overrides) => {
+      stored = cloneOverrides(overrides);
+    },
+  };
+};
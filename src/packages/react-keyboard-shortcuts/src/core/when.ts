@@ -0,0 +1,136 @@
+import { ContextValue, WhenPredicate } from '../types';
+
+type Token =
+  | { type: 'op'; value: '(' | ')' | '!' | '&&' | '||' | '==' | '!=' }
+  | { type: 'word'; value: string }
+  | { type: 'string'; value: string };
+
+// Split an expression into operators, quoted strings and bare words
+const tokenize = (expression: string, fail: (detail: string) => never): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    const pair = expression.slice(i, i + 2);
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (pair === '&&' || pair === '||' || pair === '==' || pair === '!=') {
+      tokens.push({ type: 'op', value: pair });
+      i += 2;
+    } else if (char === '(' || char === ')' || char === '!') {
+      tokens.push({ type: 'op', value: char });
+      i++;
+    } else if (char === '\'' || char === '"') {
+      const end = expression.indexOf(char, i + 1);
+      if (end === -1) fail(`unterminated string at ${i}`);
+      tokens.push({ type: 'string', value: expression.slice(i + 1, end) });
+      i = end + 1;
+    } else {
+      const match = /^[^\s()!&|='"]+/.exec(expression.slice(i));
+      if (!match) fail(`unexpected "${char}" at ${i}`);
+      tokens.push({ type: 'word', value: match[0] });
+      i += match[0].length;
+    }
+  }
+  return tokens;
+};
+
+// Literal on the right of == / != ('true', 'false' and numbers are typed, other words are strings)
+const toLiteral = (token: Token): ContextValue => {
+  if (token.type === 'string') return token.value;
+  if (token.value === 'true') return true;
+  if (token.value === 'false') return false;
+  return /^-?\d+(\.\d+)?$/.test(token.value) ? Number(token.value) : token.value;
+};
+
+// Compare a context value with a literal, treating 1 == '1' as equal
+const looselyEqual = (value: ContextValue, literal: ContextValue): boolean => {
+  if (value === literal) return true;
+  return value !== undefined && value !== null && String(value) === String(literal);
+};
+
+// Parse a VS Code-style when clause (e.g. "editorFocused && !readOnly", "mode == 'insert'")
+// into a predicate over context keys. Supports !, &&, ||, ==, != and parentheses.
+export const parseWhenClause = (expression: string): WhenPredicate => {
+  const fail = (detail: string): never => {
+    throw new Error(`Invalid when clause "${expression}": ${detail}`);
+  };
+
+  const tokens = tokenize(expression, fail);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isOp = (value: string): boolean => {
+    const token = peek();
+    return !!token && token.type === 'op' && token.value === value;
+  };
+
+  const parseOr = (): WhenPredicate => {
+    let left = parseAnd();
+    while (isOp('||')) {
+      position++;
+      const a = left;
+      const b = parseAnd();
+      left = context => a(context) || b(context);
+    }
+    return left;
+  };
+
+  const parseAnd = (): WhenPredicate => {
+    let left = parseUnary();
+    while (isOp('&&')) {
+      position++;
+      const a = left;
+      const b = parseUnary();
+      left = context => a(context) && b(context);
+    }
+    return left;
+  };
+
+  const parseUnary = (): WhenPredicate => {
+    if (isOp('!')) {
+      position++;
+      const operand = parseUnary();
+      return context => !operand(context);
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): WhenPredicate => {
+    const token = peek();
+    if (!token) return fail('unexpected end of expression');
+
+    if (token.type === 'op' && token.value === '(') {
+      position++;
+      const inner = parseOr();
+      if (!isOp(')')) fail('missing ")"');
+      position++;
+      return inner;
+    }
+    if (token.type !== 'word') return fail(`unexpected "${token.value}"`);
+    position++;
+
+    const key = token.value;
+    if (key === 'true') return () => true;
+    if (key === 'false') return () => false;
+
+    if (isOp('==') || isOp('!=')) {
+      const negate = isOp('!=');
+      position++;
+      const right = peek();
+      if (!right || right.type === 'op') return fail(`expected a value after "${key}"`);
+      position++;
+
+      const literal = toLiteral(right);
+      return context => looselyEqual(context(key), literal) !== negate;
+    }
+    return context => !!context(key);
+  };
+
+  if (tokens.length === 0) fail('empty expression');
+  const predicate = parseOr();
+  if (position < tokens.length) fail(`unexpected "${tokens[position].value}"`);
+  return predicate;
+};
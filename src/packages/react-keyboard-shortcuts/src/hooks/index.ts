@@ -2,4 +2,20 @@ export {
   useKeyboardShortcuts,
   useShortcut,
   type UseKeyboardShortcutsReturn,
+  type UseShortcutReturn,
 } from './useKeyboardShortcuts';
+export {
+  useShortcutScope,
+  type UseShortcutScopeOptions,
+} from './useShortcutScope';
+export { useCommand } from './useCommand';
+export { useContextKey } from './useContextKey';
+export {
+  useKeyRecorder,
+  type UseKeyRecorderOptions,
+  type UseKeyRecorderReturn,
+} from './useKeyRecorder';
+export {
+  useShortcutManager,
+  ShortcutManagerContext,
+} from './useShortcutManager';
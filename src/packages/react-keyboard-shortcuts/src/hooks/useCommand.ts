@@ -0,0 +1,32 @@
+import { useEffect, useCallback, useRef } from 'react';
+import { useShortcutManager } from './useShortcutManager';
+import { CommandHandler, CommandMeta } from '../types';
+
+// Register a command while the component is mounted; returns a function that runs it
+export function useCommand(
+  commandId: string,
+  handler: CommandHandler,
+  meta: CommandMeta = {}
+): (args?: unknown) => boolean {
+  const manager = useShortcutManager();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  const { title, description, category } = meta;
+
+  useEffect(() => {
+    const run: CommandHandler = (args, event) => handlerRef.current(args, event);
+
+    manager.registerCommand(commandId, run, { title, description, category });
+    return () => {
+      // Leave the command alone if another component has since re-registered it
+      manager.unregisterCommand(commandId, run);
+    };
+  }, [manager, commandId, title, description, category]);
+
+  return useCallback((args?: unknown): boolean => {
+    return manager.executeCommand(commandId, args);
+  }, [manager, commandId]);
+}
+
+export default useCommand;
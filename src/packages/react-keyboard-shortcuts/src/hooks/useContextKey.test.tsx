@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { KeyboardShortcutManager } from '../core';
+import { ShortcutProvider } from '../components';
+import { useShortcut } from './useKeyboardShortcuts';
+import { useContextKey } from './useContextKey';
+
+const keyDown = (init: KeyboardEventInit): void => {
+  act(() => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+  });
+};
+
+let manager: KeyboardShortcutManager;
+
+beforeEach(() => {
+  manager = new KeyboardShortcutManager({ detectPlatform: () => 'other' });
+});
+
+afterEach(() => {
+  manager.destroy();
+});
+
+test('a context key gates when clauses while its component is mounted', () => {
+  const callback = jest.fn();
+  const Editor = ({ focused }: { focused: boolean }) => {
+    useContextKey('editorFocused', focused);
+    useShortcut('Ctrl+D', callback, { when: 'editorFocused' });
+    return null;
+  };
+  const App = () => {
+    const [focused, setFocused] = useState(false);
+    return (
+      <>
+        <button onClick={() => setFocused(true)}>focus</button>
+        <Editor focused={focused} />
+      </>
+    );
+  };
+
+  render(<ShortcutProvider manager={manager}><App /></ShortcutProvider>);
+  keyDown({ key: 'd', ctrlKey: true });
+  expect(callback).not.toHaveBeenCalled();
+
+  act(() => {
+    screen.getByText('focus').click();
+  });
+  keyDown({ key: 'd', ctrlKey: true });
+  expect(callback).toHaveBeenCalledTimes(1);
+});
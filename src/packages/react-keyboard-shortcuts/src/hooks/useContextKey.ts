@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { useShortcutManager } from './useShortcutManager';
+import { ContextValue } from '../types';
+
+// Keep a context key set on the manager while the component is mounted, and remove it on unmount
+export function useContextKey(key: string, value: ContextValue): void {
+  const manager = useShortcutManager();
+
+  useEffect(() => {
+    manager.setContext(key, value);
+  }, [manager, key, value]);
+
+  useEffect(() => {
+    return () => {
+      manager.setContext(key, undefined);
+    };
+  }, [manager, key]);
+}
+
+export default useContextKey;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { KeyboardShortcutManager } from '../core';
+import { ShortcutProvider } from '../components';
+import { useKeyRecorder, UseKeyRecorderOptions } from './useKeyRecorder';
+
+const keyDown = (init: KeyboardEventInit): void => {
+  act(() => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+  });
+};
+
+let manager: KeyboardShortcutManager;
+
+const renderRecorder = (options: UseKeyRecorderOptions = {}) => renderHook(() => useKeyRecorder(options), {
+  wrapper: ({ children }) => <ShortcutProvider manager={manager}>{children}</ShortcutProvider>,
+});
+
+beforeEach(() => {
+  manager = new KeyboardShortcutManager({ detectPlatform: () => 'other' });
+});
+
+afterEach(() => {
+  manager.destroy();
+  jest.useRealTimers();
+});
+
+test('suspends the manager while recording a stroke', () => {
+  const save = jest.fn();
+  const onRecord = jest.fn();
+  manager.register('editor', [{ keys: 'Ctrl+S', callback: save }]);
+  const { result } = renderRecorder({ onRecord });
+
+  act(() => result.current.start());
+  expect(manager.isSuspended()).toBe(true);
+
+  keyDown({ key: 's', ctrlKey: true });
+  expect(save).not.toHaveBeenCalled();
+  expect(onRecord).toHaveBeenCalledWith({ key: 's', ctrl: true }, 'Ctrl+S');
+  expect(result.current.isRecording).toBe(false);
+  expect(manager.isSuspended()).toBe(false);
+});
+
+test('Escape cancels recording', () => {
+  const onRecord = jest.fn();
+  const onCancel = jest.fn();
+  const { result } = renderRecorder({ onRecord, onCancel });
+
+  act(() => result.current.start());
+  keyDown({ key: 'Escape' });
+  expect(onCancel).toHaveBeenCalledTimes(1);
+  expect(onRecord).not.toHaveBeenCalled();
+  expect(result.current.isRecording).toBe(false);
+  expect(result.current.binding).toBeNull();
+  expect(manager.isSuspended()).toBe(false);
+});
+
+test('records a sequence, or a shorter one once the timeout passes', () => {
+  jest.useFakeTimers();
+  const onRecord = jest.fn();
+  const { result } = renderRecorder({ maxStrokes: 2, onRecord });
+
+  act(() => result.current.start());
+  keyDown({ key: 'k', ctrlKey: true });
+  expect(result.current.isRecording).toBe(true);
+  keyDown({ key: 'c', ctrlKey: true });
+  expect(onRecord).toHaveBeenLastCalledWith(expect.anything(), 'Ctrl+K Ctrl+C');
+
+  act(() => result.current.start());
+  keyDown({ key: 'g' });
+  act(() => {
+    jest.advanceTimersByTime(1000);
+  });
+  expect(onRecord).toHaveBeenLastCalledWith({ key: 'g' }, 'G');
+});
+
+test('reports unsupported keys without recording them', () => {
+  const onRecord = jest.fn();
+  const { result } = renderRecorder({ onRecord });
+
+  act(() => result.current.start());
+  keyDown({ key: 'ü' });
+  expect(result.current.error).toMatch(/Unsupported key/);
+  expect(onRecord).not.toHaveBeenCalled();
+});
+
+test('lists existing bindings of the recorded keys, except the one being rebound', () => {
+  const [saveId] = manager.register('editor', [
+    { keys: 'Ctrl+S', callback: jest.fn(), options: { description: 'Save' } },
+  ]);
+  const { result: conflicting } = renderRecorder();
+  act(() => conflicting.current.start());
+  keyDown({ key: 's', ctrlKey: true });
+  expect(conflicting.current.conflicts.map(s => s.id)).toEqual([saveId]);
+
+  const { result: rebinding } = renderRecorder({ excludeId: saveId });
+  act(() => rebinding.current.start());
+  keyDown({ key: 's', ctrlKey: true });
+  expect(rebinding.current.conflicts).toHaveLength(0);
+});
@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  eventToKeyCombination,
+  isSupportedKeyCombination,
+  keyCombinationToString,
+} from '../core';
+import { KeyBinding, KeyCombination, KeyMatchMode, RegisteredShortcut } from '../types';
+import { useShortcutManager } from './useShortcutManager';
+
+export interface UseKeyRecorderOptions {
+  // Strokes to record; more than 1 records a sequence (default 1)
+  maxStrokes?: number;
+  // Max delay (ms) between strokes before a shorter sequence is accepted (default 1000)
+  sequenceTimeout?: number;
+  // Record characters ('key') or physical keys ('code')
+  match?: KeyMatchMode;
+  // Scope the binding will be used in, for conflict checks
+  scope?: string;
+  // ID of the shortcut being rebound, left out of conflict checks
+  excludeId?: string;
+  onRecord?: (binding: KeyBinding, keyString: string) => void;
+  onCancel?: () => void;
+}
+
+export interface UseKeyRecorderReturn {
+  isRecording: boolean;
+  binding: KeyBinding | null;
+  // Canonical key string of the binding ('' when nothing is recorded)
+  keyString: string;
+  error: string | null;
+  // Registered shortcuts already bound to the recorded keys
+  conflicts: RegisteredShortcut[];
+  start: () => void;
+  // Finish early with the strokes recorded so far
+  stop: () => void;
+  cancel: () => void;
+  reset: () => void;
+}
+
+const toBinding = (strokes: KeyCombination[]): KeyBinding | null => {
+  if (strokes.length === 0) return null;
+  return strokes.length === 1 ? strokes[0] : strokes;
+};
+
+// Capture what the user presses while recording; the manager is suspended meanwhile
+export function useKeyRecorder(options: UseKeyRecorderOptions = {}): UseKeyRecorderReturn {
+  const { maxStrokes = 1, sequenceTimeout = 1000, match = 'key', scope, excludeId } = options;
+
+  const manager = useShortcutManager();
+  const [isRecording, setIsRecording] = useState(false);
+  const [strokes, setStrokes] = useState<KeyCombination[]>([]);
+
+  const strokesRef = useRef<KeyCombination[]>([]);
+  const recordingRef = useRef(false);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const binding = toBinding(strokes);
+  const unsupported = strokes.find(combo => !isSupportedKeyCombination(combo));
+  const error = unsupported
+    ? `Unsupported key "${keyCombinationToString(unsupported, manager.getPlatform())}"`
+    : null;
+  const conflicts = binding
+    ? manager.getBindingConflicts(binding, scope).filter(s => s.id !== excludeId)
+    : [];
+
+  const finish = useCallback(() => {
+    if (!recordingRef.current) return;
+    recordingRef.current = false;
+    setIsRecording(false);
+
+    // Only bindings made of supported keys are reported
+    const recorded = toBinding(strokesRef.current);
+    if (recorded && strokesRef.current.every(isSupportedKeyCombination)) {
+      optionsRef.current.onRecord?.(recorded, keyCombinationToString(recorded));
+    }
+  }, []);
+
+  const start = useCallback(() => {
+    strokesRef.current = [];
+    recordingRef.current = true;
+    setStrokes([]);
+    setIsRecording(true);
+  }, []);
+
+  const cancel = useCallback(() => {
+    if (!recordingRef.current) return;
+    recordingRef.current = false;
+    strokesRef.current = [];
+    setStrokes([]);
+    setIsRecording(false);
+    optionsRef.current.onCancel?.();
+  }, []);
+
+  const reset = useCallback(() => {
+    strokesRef.current = [];
+    setStrokes([]);
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const resume = manager.suspend();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Keep the press away from the page and its own handlers
+      event.preventDefault();
+      event.stopPropagation();
+
+      const isBareEscape = event.key === 'Escape' && !event.ctrlKey && !event.altKey && !event.shiftKey && !event.metaKey;
+      if (isBareEscape) {
+        cancel();
+        return;
+      }
+
+      const combo = eventToKeyCombination(event, match);
+      if (!combo || event.repeat) return;
+
+      if (timer) clearTimeout(timer);
+      strokesRef.current = [...strokesRef.current, combo];
+      setStrokes(strokesRef.current);
+
+      if (strokesRef.current.length >= maxStrokes) {
+        finish();
+      } else {
+        timer = setTimeout(finish, sequenceTimeout);
+      }
+    };
+
+    // Capture phase on window runs before any other key handler on the page
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      if (timer) clearTimeout(timer);
+      resume();
+    };
+  }, [manager, isRecording, match, maxStrokes, sequenceTimeout, finish, cancel]);
+
+  return {
+    isRecording,
+    binding,
+    keyString: binding ? keyCombinationToString(binding) : '',
+    error,
+    conflicts,
+    start,
+    stop: finish,
+    cancel,
+    reset,
+  };
+}
+
+export default useKeyRecorder;
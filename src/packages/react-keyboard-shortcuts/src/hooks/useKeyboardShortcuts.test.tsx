@@ -0,0 +1,132 @@
+import React, { useEffect } from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { KeyboardShortcutManager } from '../core';
+import { ShortcutProvider } from '../components';
+import { RegisterOptions, ManagerEvent } from '../types';
+import { useKeyboardShortcuts, useShortcut } from './useKeyboardShortcuts';
+
+const keyDown = (init: KeyboardEventInit): void => {
+  act(() => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+  });
+};
+
+let manager: KeyboardShortcutManager;
+
+const renderWithManager = (ui: React.ReactElement) => {
+  const view = render(<ShortcutProvider manager={manager}>{ui}</ShortcutProvider>);
+  return {
+    ...view,
+    rerender: (next: React.ReactElement) => view.rerender(<ShortcutProvider manager={manager}>{next}</ShortcutProvider>),
+  };
+};
+
+beforeEach(() => {
+  manager = new KeyboardShortcutManager({ detectPlatform: () => 'other' });
+});
+
+afterEach(() => {
+  manager.destroy();
+});
+
+describe('useShortcut', () => {
+  const Shortcut = ({ keys, callback, options }: {
+    keys: string;
+    callback: () => void;
+    options?: RegisterOptions;
+  }) => {
+    useShortcut(keys, callback, options);
+    return null;
+  };
+
+  test('registers while mounted and calls the latest callback', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const { rerender, unmount } = renderWithManager(<Shortcut keys="Ctrl+S" callback={first} />);
+
+    rerender(<Shortcut keys="Ctrl+S" callback={second} />);
+    keyDown({ key: 's', ctrlKey: true });
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    unmount();
+    keyDown({ key: 's', ctrlKey: true });
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(manager.getComponentIds()).toHaveLength(0);
+  });
+
+  test('re-rendering with equal options keeps the registration and a pending sequence', () => {
+    const registers: ManagerEvent[] = [];
+    manager.subscribe(event => {
+      if (event.type === 'register') registers.push(event);
+    });
+    const callback = jest.fn();
+    const { rerender } = renderWithManager(
+      <Shortcut keys="g g" callback={callback} options={{ description: 'Go to top', allowIn: () => true }} />
+    );
+
+    keyDown({ key: 'g' });
+    rerender(<Shortcut keys="g g" callback={callback} options={{ description: 'Go to top', allowIn: () => true }} />);
+    keyDown({ key: 'g' });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(registers).toHaveLength(1);
+  });
+
+  test('changing an option registers the shortcut again', () => {
+    const callback = jest.fn();
+    const { rerender } = renderWithManager(<Shortcut keys="j" callback={callback} />);
+
+    rerender(<Shortcut keys="j" callback={callback} options={{ enabled: false }} />);
+    keyDown({ key: 'j' });
+    expect(callback).not.toHaveBeenCalled();
+
+    rerender(<Shortcut keys="k" callback={callback} />);
+    keyDown({ key: 'k' });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  test('isRunning follows the returned promise', async () => {
+    let finish!: () => void;
+    const Saver = () => {
+      const { isRunning } = useShortcut('Ctrl+S', () => new Promise<void>(resolve => {
+        finish = resolve;
+      }));
+      return <span>{isRunning ? 'saving' : 'idle'}</span>;
+    };
+    renderWithManager(<Saver />);
+
+    keyDown({ key: 's', ctrlKey: true });
+    expect(screen.getByText('saving')).toBeInTheDocument();
+
+    await act(async () => {
+      finish();
+    });
+    expect(screen.getByText('idle')).toBeInTheDocument();
+  });
+});
+
+describe('useKeyboardShortcuts', () => {
+  test('a rebinding survives remounting the component', () => {
+    const callback = jest.fn();
+    const Editor = () => {
+      const { register } = useKeyboardShortcuts('editor');
+      useEffect(() => {
+        register([{ keys: 'Ctrl+S', callback }]);
+      }, [register]);
+      return null;
+    };
+
+    const { unmount } = renderWithManager(<Editor />);
+    act(() => {
+      manager.rebind('editor', 'Ctrl+S', 'Ctrl+Shift+S');
+    });
+    unmount();
+    renderWithManager(<Editor />);
+
+    keyDown({ key: 's', ctrlKey: true });
+    expect(callback).not.toHaveBeenCalled();
+    keyDown({ key: 'S', ctrlKey: true, shiftKey: true });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
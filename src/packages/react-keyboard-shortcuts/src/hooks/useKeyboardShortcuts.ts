@@ -1,22 +1,45 @@
-import { useEffect, useCallback, useRef, useMemo } from 'react';
-import { getShortcutManager, keyCombinationToString } from '../core';
-import { ShortcutDefinition, RegisterOptions, UseKeyboardShortcutsOptions } from '../types';
+import { useEffect, useCallback, useRef, useMemo, useState } from 'react';
+import { keyCombinationToString } from '../core';
+import {
+  ShortcutDefinition,
+  ShortcutHandle,
+  ShortcutCallback,
+  RegisterOptions,
+  UseKeyboardShortcutsOptions,
+  KeyBinding,
+} from '../types';
+import { useShortcutManager } from './useShortcutManager';
 
 // Generate a stable component ID
 const generateComponentId = (): string => {
   return `component_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 };
 
+// Generate a stable shortcut ID for useShortcut
+const generateShortcutId = (): string => {
+  return `use_shortcut_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
 export interface UseKeyboardShortcutsReturn {
   register: (definitions: ShortcutDefinition[]) => string[];
+  registerShortcut: (definition: ShortcutDefinition) => ShortcutHandle;
   deregister: (keys: string[]) => void;
   enable: (keys: string[]) => void;
   disable: (keys: string[]) => void;
   clear: () => void;
+  rebind: (shortcutId: string, newKeys: string | KeyBinding) => void;
+  resetBinding: (shortcutId: string) => void;
   getRegisteredKeys: () => { keyString: string; description: string; enabled: boolean }[];
+  // Whether any of the component's shortcuts has a pending async callback
+  isRunning: boolean;
   componentId: string;
 }
 
+export interface UseShortcutReturn {
+  // Whether the callback's returned promise is still pending
+  isRunning: boolean;
+}
+
 export function useKeyboardShortcuts(
   componentId?: string,
   options: UseKeyboardShortcutsOptions = {}
@@ -25,7 +48,8 @@ export function useKeyboardShortcuts(
   const generatedIdRef = useRef<string>(componentId || generateComponentId());
   const actualComponentId = componentId || generatedIdRef.current;
 
-  const managerRef = useRef(getShortcutManager());
+  // Nearest ShortcutProvider's manager, or the shared singleton
+  const manager = useShortcutManager();
   const optionsRef = useRef(options);
 
   // Keep options ref updated
@@ -33,99 +57,214 @@ export function useKeyboardShortcuts(
     optionsRef.current = options;
   }, [options]);
 
-  // Register new shortcuts
-  const register = useCallback((definitions: ShortcutDefinition[]): string[] => {
-    const manager = managerRef.current;
-    const defaultOptions = optionsRef.current;
+  // Register display metadata so panels show a label instead of the ID
+  const { label, icon, order } = options;
+  useEffect(() => {
+    if (label === undefined && icon === undefined && order === undefined) return;
 
-    // Apply default options
-    const processedDefinitions = definitions.map(def => ({
+    manager.registerComponent(actualComponentId, { label, icon, order });
+    return () => {
+      manager.unregisterComponent(actualComponentId);
+    };
+  }, [manager, actualComponentId, label, icon, order]);
+
+  // Apply the hook's default options to definitions
+  const withDefaults = useCallback((definitions: ShortcutDefinition[]): ShortcutDefinition[] => {
+    // Component metadata isn't a per-shortcut default
+    const { label: _label, icon: _icon, order: _order, ...defaultOptions } = optionsRef.current;
+
+    return definitions.map(def => ({
       ...def,
       options: {
         ...defaultOptions,
         ...def.options,
       },
     }));
+  }, []);
 
-    return manager.register(actualComponentId, processedDefinitions);
-  }, [actualComponentId]);
+  // Register new shortcuts
+  const register = useCallback((definitions: ShortcutDefinition[]): string[] => {
+    return manager.register(actualComponentId, withDefaults(definitions));
+  }, [manager, actualComponentId, withDefaults]);
+
+  // Register one shortcut and get a handle to enable, disable, update or dispose it
+  const registerShortcut = useCallback((definition: ShortcutDefinition): ShortcutHandle => {
+    return manager.registerShortcut(actualComponentId, withDefaults([definition])[0]);
+  }, [manager, actualComponentId, withDefaults]);
 
   // Deregister specific shortcuts
   const deregister = useCallback((keys: string[]): void => {
-    managerRef.current.deregister(actualComponentId, keys);
-  }, [actualComponentId]);
+    manager.deregister(actualComponentId, keys);
+  }, [manager, actualComponentId]);
 
   // Enable specific shortcuts
   const enable = useCallback((keys: string[]): void => {
-    managerRef.current.enable(actualComponentId, keys);
-  }, [actualComponentId]);
+    manager.enable(actualComponentId, keys);
+  }, [manager, actualComponentId]);
 
   // Disable specific shortcuts
   const disable = useCallback((keys: string[]): void => {
-    managerRef.current.disable(actualComponentId, keys);
-  }, [actualComponentId]);
+    manager.disable(actualComponentId, keys);
+  }, [manager, actualComponentId]);
 
   // Clear all shortcuts for this component
   const clear = useCallback((): void => {
-    managerRef.current.clearComponent(actualComponentId);
-  }, [actualComponentId]);
+    manager.clearComponent(actualComponentId);
+  }, [manager, actualComponentId]);
+
+  // Rebind a shortcut (by ID or default key string) for the user
+  const rebind = useCallback((shortcutId: string, newKeys: string | KeyBinding): void => {
+    manager.rebind(actualComponentId, shortcutId, newKeys);
+  }, [manager, actualComponentId]);
+
+  // Restore a shortcut's default binding
+  const resetBinding = useCallback((shortcutId: string): void => {
+    manager.resetBinding(actualComponentId, shortcutId);
+  }, [manager, actualComponentId]);
 
   // Get registered keys for this component
   const getRegisteredKeys = useCallback(() => {
-    const shortcuts = managerRef.current.getComponentKeys(actualComponentId);
+    const shortcuts = manager.getComponentKeys(actualComponentId);
     return shortcuts.map(s => ({
       keyString: keyCombinationToString(s.keys),
       description: s.description || '',
       enabled: s.enabled,
     }));
-  }, [actualComponentId]);
+  }, [manager, actualComponentId]);
+
+  // Track pending async callbacks so the component can show progress
+  const [isRunning, setIsRunning] = useState(false);
+  useEffect(() => {
+    const update = () => setIsRunning(manager.getRunningShortcuts(actualComponentId).length > 0);
+    update();
+
+    return manager.subscribe(event => {
+      if (event.type === 'running' && event.componentId === actualComponentId) update();
+    });
+  }, [manager, actualComponentId]);
 
   // Cleanup on unmount
   useEffect(() => {
-    const manager = managerRef.current;
     return () => {
       manager.clearComponent(actualComponentId);
     };
-  }, [actualComponentId]);
+  }, [manager, actualComponentId]);
 
   return useMemo(() => ({
     register,
+    registerShortcut,
     deregister,
     enable,
     disable,
     clear,
+    rebind,
+    resetBinding,
     getRegisteredKeys,
+    isRunning,
     componentId: actualComponentId,
-  }), [register, deregister, enable, disable, clear, getRegisteredKeys, actualComponentId]);
+  }), [register, registerShortcut, deregister, enable, disable, clear, rebind, resetBinding, getRegisteredKeys, isRunning, actualComponentId]);
 }
 
 // Simplified hook for one-time registration
 export function useShortcut(
   keyString: string,
-  callback: (event: KeyboardEvent) => void,
+  callback: ShortcutCallback,
   options: RegisterOptions & { componentId?: string; enabled?: boolean } = {}
-): void {
-  const { componentId, enabled = true, ...registerOptions } = options;
-  const { register, enable: enableShortcut, disable: disableShortcut } = useKeyboardShortcuts(componentId);
+): UseShortcutReturn {
+  const {
+    componentId,
+    enabled = true,
+    description,
+    category,
+    preventDefault,
+    stopPropagation,
+    scope,
+    priority,
+    target,
+    focusWithin,
+    allowIn,
+    match,
+    trigger,
+    repeat,
+    onRelease,
+    when,
+    concurrency,
+  } = options;
+  const { registerShortcut } = useKeyboardShortcuts(componentId);
+  const manager = useShortcutManager();
+
+  // Stable ID: re-registering replaces the shortcut by ID, which keeps a pending call (and its signal) alive
+  const idRef = useRef<string>(generateShortcutId());
 
   const callbackRef = useRef(callback);
   callbackRef.current = callback;
 
+  // Function options are called through refs too, so inline functions don't re-register the shortcut
+  const onReleaseRef = useRef(onRelease);
+  onReleaseRef.current = onRelease;
+  const allowInRef = useRef(allowIn);
+  allowInRef.current = allowIn;
+  const hasOnRelease = onRelease !== undefined;
+  // null when allowIn is a function
+  const allowInPolicy = typeof allowIn === 'function' ? null : allowIn;
+
+  // Registered by ID, so other shortcuts on the same key in the component are untouched.
+  // Only re-registered when an input changes: replacing the shortcut resets a pending sequence.
   useEffect(() => {
-    register([{
+    registerShortcut({
+      id: idRef.current,
       keys: keyString,
-      callback: (e) => callbackRef.current(e),
-      options: { ...registerOptions, enabled },
-    }]);
-  }, [keyString, register, enabled, registerOptions]);
+      callback: (e, context) => callbackRef.current(e, context),
+      options: {
+        enabled,
+        description,
+        category,
+        preventDefault,
+        stopPropagation,
+        scope,
+        priority,
+        target,
+        focusWithin,
+        allowIn: allowInPolicy === null
+          ? (event, element) => {
+            const policy = allowInRef.current;
+            return typeof policy === 'function' ? policy(event, element) : true;
+          }
+          : allowInPolicy,
+        match,
+        trigger,
+        repeat,
+        onRelease: hasOnRelease ? release => onReleaseRef.current?.(release) : undefined,
+        when,
+        concurrency,
+      },
+    });
+  }, [
+    registerShortcut, keyString, enabled, description, category, preventDefault, stopPropagation, scope,
+    priority, target, focusWithin, allowInPolicy, match, trigger, repeat, hasOnRelease, when, concurrency,
+  ]);
 
+  // Deregistering aborts the signal, so only do it on unmount
   useEffect(() => {
-    if (enabled) {
-      enableShortcut([keyString]);
-    } else {
-      disableShortcut([keyString]);
-    }
-  }, [enabled, keyString, enableShortcut, disableShortcut]);
+    const id = idRef.current;
+    return () => {
+      manager.deregisterById(id);
+    };
+  }, [manager]);
+
+  const [isRunning, setIsRunning] = useState(false);
+  useEffect(() => {
+    const id = idRef.current;
+    setIsRunning(manager.isRunning(id));
+
+    return manager.subscribe(event => {
+      if (event.type === 'running' && event.shortcut?.id === id) {
+        setIsRunning(manager.isRunning(id));
+      }
+    });
+  }, [manager]);
+
+  return { isRunning };
 }
 
 export default useKeyboardShortcuts;
@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { KeyboardShortcutManager, getShortcutManager } from '../core';
+
+// Manager provided by the nearest ShortcutProvider
+export const ShortcutManagerContext = createContext<KeyboardShortcutManager | null>(null);
+
+// Resolve the nearest provided manager, falling back to the shared singleton
+export function useShortcutManager(): KeyboardShortcutManager {
+  return useContext(ShortcutManagerContext) ?? getShortcutManager();
+}
+
+export default useShortcutManager;
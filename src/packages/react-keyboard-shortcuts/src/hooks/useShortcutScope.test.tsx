@@ -0,0 +1,45 @@
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { KeyboardShortcutManager } from '../core';
+import { ShortcutProvider } from '../components';
+import { useShortcut } from './useKeyboardShortcuts';
+import { useShortcutScope } from './useShortcutScope';
+
+const keyDown = (init: KeyboardEventInit): void => {
+  act(() => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+  });
+};
+
+let manager: KeyboardShortcutManager;
+
+beforeEach(() => {
+  manager = new KeyboardShortcutManager({ detectPlatform: () => 'other' });
+});
+
+afterEach(() => {
+  manager.destroy();
+});
+
+test('a mounted modal scope shadows page shortcuts', () => {
+  const page = jest.fn();
+  const modal = jest.fn();
+  const Modal = () => {
+    useShortcutScope('modal');
+    useShortcut('Escape', modal, { scope: 'modal' });
+    return null;
+  };
+  const Page = ({ showModal }: { showModal: boolean }) => {
+    useShortcut('Escape', page);
+    return showModal ? <Modal /> : null;
+  };
+
+  const { rerender } = render(<ShortcutProvider manager={manager}><Page showModal /></ShortcutProvider>);
+  keyDown({ key: 'Escape' });
+  expect(modal).toHaveBeenCalledTimes(1);
+  expect(page).not.toHaveBeenCalled();
+
+  rerender(<ShortcutProvider manager={manager}><Page showModal={false} /></ShortcutProvider>);
+  keyDown({ key: 'Escape' });
+  expect(page).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { useShortcutManager } from './useShortcutManager';
+import { PushScopeOptions } from '../types';
+
+export interface UseShortcutScopeOptions extends PushScopeOptions {
+  // Push the scope only while true (e.g. while a modal is open)
+  active?: boolean;
+}
+
+// Keep a scope on the manager's stack while the component is mounted and active
+export function useShortcutScope(
+  scopeId: string,
+  options: UseShortcutScopeOptions = {}
+): void {
+  const { active = true, exclusive = true } = options;
+  const manager = useShortcutManager();
+
+  useEffect(() => {
+    if (!active) return;
+
+    manager.pushScope(scopeId, { exclusive });
+    return () => {
+      manager.popScope(scopeId);
+    };
+  }, [manager, scopeId, active, exclusive]);
+}
+
+export default useShortcutScope;
@@ -3,8 +3,30 @@ export {
   KeyboardShortcutManager,
   getShortcutManager,
   resetShortcutManager,
+  ShortcutConflictError,
   parseKeyString,
+  parseKeySequence,
+  parseKeyBinding,
+  toKeySequence,
+  isEditableElement,
+  isDispatchEvent,
   keyCombinationToString,
+  resolveModifiers,
+  detectPlatform,
+  setKeyboardLayout,
+  loadKeyboardLayout,
+  eventToKeyCombination,
+  isSupportedKeyCombination,
+  toAriaKeyShortcuts,
+  createLiveAnnouncer,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  DEFAULT_STORAGE_KEY,
+  exportKeymap,
+  importKeymap,
+  KEYMAP_VERSION,
+  KEYMAP_PRESETS,
+  parseWhenClause,
 } from './core';
 
 // Hook exports
@@ -12,12 +34,34 @@ export {
   useKeyboardShortcuts,
   useShortcut,
   type UseKeyboardShortcutsReturn,
+  type UseShortcutReturn,
+  useShortcutScope,
+  type UseShortcutScopeOptions,
+  useCommand,
+  useContextKey,
+  useKeyRecorder,
+  type UseKeyRecorderOptions,
+  type UseKeyRecorderReturn,
+  useShortcutManager,
+  ShortcutManagerContext,
 } from './hooks';
 
 // Component exports
 export {
   FloatingShortcutsButton,
   type FloatingShortcutsButtonProps,
+  CommandPalette,
+  COMMAND_PALETTE_SCOPE,
+  type CommandPaletteProps,
+  ShortcutInput,
+  type ShortcutInputProps,
+  ShortcutCheatSheet,
+  CHEAT_SHEET_SCOPE,
+  type ShortcutCheatSheetProps,
+  ShortcutDebugger,
+  type ShortcutDebuggerProps,
+  ShortcutProvider,
+  type ShortcutProviderProps,
 } from './components';
 
 // Type exports
@@ -25,15 +69,52 @@ export type {
   SupportedKey,
   ModifierKey,
   KeyCombination,
+  KeySequence,
+  KeyBinding,
   ShortcutConfig,
   RegisteredShortcut,
   RegisterOptions,
   ShortcutDefinition,
+  ShortcutUpdate,
+  ShortcutHandle,
+  ContextValue,
+  WhenPredicate,
   UseKeyboardShortcutsOptions,
   ComponentShortcutInfo,
   ManagerEvent,
   ManagerEventType,
   ManagerEventListener,
+  SkipReason,
+  DebugReason,
+  DebugCandidate,
+  DebugRecord,
+  ManagerOptions,
+  ShortcutScope,
+  PushScopeOptions,
+  ConflictPolicy,
+  ShortcutConflict,
+  ShortcutTarget,
+  ListenTarget,
+  ShortcutCallback,
+  ShortcutCallbackContext,
+  ConcurrencyPolicy,
+  AllowInPolicy,
+  Platform,
+  KeyMatchMode,
+  ShortcutTrigger,
+  HoldRelease,
+  KeybindingOverrides,
+  WhenOverrides,
+  KeybindingStorage,
+  KeymapEntry,
+  Keymap,
+  KeymapImportOptions,
+  KeymapImportResult,
+  CommandHandler,
+  CommandMeta,
+  RegisteredCommand,
+  ComponentMeta,
+  ShortcutAnnouncer,
 } from './types';
 
 export { SUPPORTED_KEYS } from './types';
@@ -18,8 +18,11 @@ export const SUPPORTED_KEYS = [
 
 export type SupportedKey = typeof SUPPORTED_KEYS[number];
 
-// Modifier keys
-export type ModifierKey = 'ctrl' | 'alt' | 'shift' | 'meta';
+// Modifier keys ('mod' is Cmd on macOS and Ctrl elsewhere)
+export type ModifierKey = 'ctrl' | 'alt' | 'shift' | 'meta' | 'mod';
+
+// Platform as far as modifier keys are concerned
+export type Platform = 'mac' | 'other';
 
 // Key combination representation
 export interface KeyCombination {
@@ -28,23 +31,114 @@ export interface KeyCombination {
   alt?: boolean;
   shift?: boolean;
   meta?: boolean;
+  mod?: boolean;
+  // Physical key (KeyboardEvent.code, e.g. 'KeyZ'); always matched by position
+  code?: string;
+}
+
+// Match key presses by produced character ('key') or physical position ('code')
+export type KeyMatchMode = 'key' | 'code';
+
+// Multi-stroke key sequence (e.g. "g g" or "Ctrl+K Ctrl+C")
+export type KeySequence = KeyCombination[];
+
+// A single key combination or a sequence of them
+export type KeyBinding = KeyCombination | KeySequence;
+
+// Value of a context key set with setContext
+export type ContextValue = boolean | string | number | null | undefined;
+
+// Compiled when clause, evaluated against a context key lookup
+export type WhenPredicate = (getContext: (key: string) => ContextValue) => boolean;
+
+// DOM element (or React ref to one) that bounds where a shortcut fires
+export type ShortcutTarget = Element | { readonly current: Element | null };
+
+// Extra place the manager listens for key events: a same-origin iframe or popup window, its document, or a shadow root
+export type ListenTarget = Window | Document | ShadowRoot;
+
+// Whether a shortcut may fire while focus is in an editable element
+export type AllowInPolicy =
+  | 'always'
+  | 'never'
+  | 'with-modifiers'
+  | ((event: KeyboardEvent, element: Element) => boolean);
+
+// Which key event fires a shortcut; 'hold' fires on press and reports the release
+export type ShortcutTrigger = 'keydown' | 'keyup' | 'hold';
+
+// Passed to onRelease when a held shortcut's key goes up (event is null if the window lost focus)
+export interface HoldRelease {
+  event: KeyboardEvent | null;
+  duration: number;
+}
+
+// Passed to shortcut callbacks; signal is aborted when the shortcut is deregistered
+export interface ShortcutCallbackContext {
+  signal: AbortSignal;
+}
+
+// Shortcut callback; return false to pass the event on to lower-priority shortcuts.
+// A returned promise counts as handled, and the shortcut is running until it settles.
+export type ShortcutCallback = (
+  event: KeyboardEvent,
+  context: ShortcutCallbackContext
+) => void | boolean | Promise<unknown>;
+
+// What happens when an async shortcut is triggered while an earlier call is still running
+export type ConcurrencyPolicy = 'ignore' | 'queue' | 'parallel';
+
+// Runs a command; return false to report it as not handled (a key event then passes on)
+export type CommandHandler = (args: unknown, event: KeyboardEvent | null) => void | boolean | Promise<unknown>;
+
+// Display metadata for a command
+export interface CommandMeta {
+  title?: string;
+  description?: string;
+  // Group in the cheat sheet
+  category?: string;
+}
+
+// Command in the manager's registry
+export interface RegisteredCommand extends CommandMeta {
+  id: string;
+  handler: CommandHandler;
 }
 
 // Shortcut configuration
 export interface ShortcutConfig {
-  keys: KeyCombination;
-  callback: (event: KeyboardEvent) => void;
+  keys: KeyBinding;
+  callback: ShortcutCallback;
   description?: string;
+  category?: string;
   enabled: boolean;
   preventDefault?: boolean;
   stopPropagation?: boolean;
+  priority: number;
+  target?: ShortcutTarget;
+  focusWithin?: boolean;
+  allowIn?: AllowInPolicy;
+  match?: KeyMatchMode;
+  trigger?: ShortcutTrigger;
+  repeat?: boolean;
+  onRelease?: (release: HoldRelease) => void;
+  when?: string;
+  concurrency?: ConcurrencyPolicy;
 }
 
 // Registered shortcut with metadata
 export interface RegisteredShortcut extends ShortcutConfig {
   id: string;
+  // Binding from source code; `keys` differs when the user rebound the shortcut
+  defaultKeys: KeyBinding;
+  // When clause from source code; `when` differs when a keymap replaced it
+  defaultWhen?: string;
   componentId: string;
   registeredAt: number;
+  scope?: string;
+  // Command the binding runs instead of its own callback
+  command?: string;
+  args?: unknown;
 }
 
 // Component shortcuts map
@@ -53,23 +147,112 @@ export type ComponentShortcutsMap = Map<string, RegisteredShortcut[]>;
 // Registration options
 export interface RegisterOptions {
   description?: string;
+  // Group in the cheat sheet (e.g. 'Navigation', 'Editing')
+  category?: string;
   preventDefault?: boolean;
   stopPropagation?: boolean;
   enabled?: boolean;
+  // Only active while this scope is on the manager's scope stack
+  scope?: string;
+  // Higher priority shortcuts are dispatched first (default 0)
+  priority?: number;
+  // Only fire for key presses whose event target is inside this element
+  target?: ShortcutTarget;
+  // With a target, additionally require focus to be within it
+  focusWithin?: boolean;
+  // Behavior in inputs, textareas, selects and other editable elements (default 'with-modifiers')
+  allowIn?: AllowInPolicy;
+  // Overrides the manager's match mode for this shortcut
+  match?: KeyMatchMode;
+  // Fire on keydown (default), keyup, or hold (press + release); sequences always use keydown
+  trigger?: ShortcutTrigger;
+  // Fire again on OS auto-repeat keydowns (default true)
+  repeat?: boolean;
+  // With trigger 'hold', called when the key is released
+  onRelease?: (release: HoldRelease) => void;
+  // Context key expression that must hold at dispatch time (e.g. "editorFocused && !readOnly")
+  when?: string;
+  // While a returned promise is pending: ignore new presses (default), queue them, or run in parallel
+  concurrency?: ConcurrencyPolicy;
 }
 
 // Shortcut definition for registration
 export interface ShortcutDefinition {
-  keys: string | KeyCombination;
-  callback: (event: KeyboardEvent) => void;
+  // Stable ID for the *ById methods (generated if omitted); registering it again replaces the old shortcut
+  id?: string;
+  keys: string | KeyBinding;
+  // Either a callback or the ID of a registered command
+  callback?: ShortcutCallback;
+  command?: string;
+  // Passed to the command's handler
+  args?: unknown;
   options?: RegisterOptions;
 }
 
+// Changes applied by updateById / ShortcutHandle.update
+export interface ShortcutUpdate {
+  callback?: ShortcutCallback;
+  description?: string;
+  category?: string;
+  // New source binding; a user override of the shortcut still applies
+  keys?: string | KeyBinding;
+  // New when clause ('' removes it)
+  when?: string;
+}
+
+// Manages one registered shortcut by ID; methods do nothing once it is deregistered
+export interface ShortcutHandle {
+  readonly id: string;
+  enable(): void;
+  disable(): void;
+  update(changes: ShortcutUpdate): void;
+  dispose(): void;
+  // The registered shortcut, or undefined once disposed
+  get(): RegisteredShortcut | undefined;
+}
+
 // Hook options
 export interface UseKeyboardShortcutsOptions {
   enabled?: boolean;
   preventDefault?: boolean;
   stopPropagation?: boolean;
+  scope?: string;
+  priority?: number;
+  target?: ShortcutTarget;
+  focusWithin?: boolean;
+  allowIn?: AllowInPolicy;
+  match?: KeyMatchMode;
+  trigger?: ShortcutTrigger;
+  repeat?: boolean;
+  category?: string;
+  when?: string;
+  concurrency?: ConcurrencyPolicy;
+  // Component metadata, shown instead of the (possibly generated) component ID
+  label?: string;
+  icon?: string;
+  order?: number;
+}
+
+// Layer on the manager's scope stack
+export interface ShortcutScope {
+  id: string;
+  // Shadows every scope below it (including unscoped shortcuts) while on the stack
+  exclusive: boolean;
+}
+
+export interface PushScopeOptions {
+  exclusive?: boolean;
+}
+
+// Display metadata for a component that owns shortcuts
+export interface ComponentMeta {
+  // Shown instead of the component ID
+  label?: string;
+  description?: string;
+  // Emoji or short text shown before the label
+  icon?: string;
+  // Lower orders are listed first (default 0)
+  order?: number;
 }
 
 // Component shortcut info for display
@@ -82,18 +265,177 @@ export interface ComponentShortcutInfo {
   }[];
 }
 
+// How register() treats a binding already owned by another component
+export type ConflictPolicy = 'allow' | 'warn' | 'error' | 'last-wins';
+
+// Shortcuts from different components bound to the same keys in the same scope
+export interface ShortcutConflict {
+  keyString: string;
+  scope?: string;
+  shortcuts: RegisteredShortcut[];
+}
+
+// User keybinding overrides: componentId ('*' for any component) → default key string → user key string
+export type KeybindingOverrides = Record<string, Record<string, string>>;
+
+// When clause overrides, keyed like KeybindingOverrides ('' removes the shortcut's clause)
+export type WhenOverrides = Record<string, Record<string, string>>;
+
+// Persistence for keybinding overrides; both methods may be async (e.g. a settings API)
+export interface KeybindingStorage {
+  load: () => KeybindingOverrides | null | Promise<KeybindingOverrides | null>;
+  save: (overrides: KeybindingOverrides) => void | Promise<void>;
+}
+
+// One binding in a keymap document
+export interface KeymapEntry {
+  // Component ID, or '*' for every component with this default binding; may be omitted with `command`
+  component?: string;
+  // Default key string that identifies the shortcut within the component (optional with `command`)
+  shortcut?: string;
+  // Key string to bind instead
+  keys: string;
+  // Command the binding runs; without a component, the entry applies to the command's registered bindings
+  command?: string;
+  // When clause to use instead of the registered one ('' removes it)
+  when?: string;
+  // Informational; ignored on import
+  description?: string;
+  componentLabel?: string;
+}
+
+// Versioned, JSON-serializable keymap document
+export interface Keymap {
+  version: number;
+  name?: string;
+  entries: KeymapEntry[];
+}
+
+export interface KeymapImportOptions {
+  // Merge into existing overrides instead of replacing them (default false)
+  merge?: boolean;
+  // Skip entries that don't match a registered shortcut (default false: apply on mount)
+  strict?: boolean;
+}
+
+// Outcome of loading a keymap
+export interface KeymapImportResult {
+  applied: KeymapEntry[];
+  // Entries that don't match any registered shortcut
+  unknown: KeymapEntry[];
+  invalid: { entry: KeymapEntry; reason: string }[];
+}
+
+// Speaks messages to screen readers (e.g. through a live region)
+export interface ShortcutAnnouncer {
+  announce: (message: string) => void;
+}
+
+// Manager configuration
+export interface ManagerOptions {
+  // Max delay (ms) between strokes of a key sequence
+  sequenceTimeout?: number;
+  conflictPolicy?: ConflictPolicy;
+  // Default match mode for shortcuts that don't set one (default 'key')
+  match?: KeyMatchMode;
+  // Decides what 'Mod' resolves to (Cmd on 'mac', Ctrl otherwise)
+  detectPlatform?: () => Platform;
+  // Decides which event origins count as editable for allowIn
+  isEditableTarget?: (element: Element, event: KeyboardEvent) => boolean;
+  // Where user keybinding overrides are loaded from and saved to
+  storage?: KeybindingStorage | null;
+  // Keep aria-keyshortcuts on shortcut targets in sync (default true)
+  ariaKeyShortcuts?: boolean;
+  // Announces when shortcuts fire or are disabled (default null: silent)
+  announcer?: ShortcutAnnouncer | null;
+  // Record why each key press did or didn't fire (default false)
+  debug?: boolean;
+}
+
 // Manager event types
 export type ManagerEventType =
   | 'register'
   | 'deregister'
   | 'enable'
   | 'disable'
-  | 'clear';
+  | 'clear'
+  | 'pushScope'
+  | 'popScope'
+  | 'conflict'
+  | 'rebind'
+  | 'registerCommand'
+  | 'unregisterCommand'
+  | 'registerComponent'
+  | 'update'
+  | 'context'
+  | 'running'
+  | 'trigger'
+  | 'miss'
+  | 'skipped'
+  | 'error'
+  | 'debug';
+
+// Why a shortcut bound to the pressed keys didn't fire
+export type SkipReason = 'disabled' | 'scope' | 'when' | 'target' | 'editable' | 'running';
+
+// How a shortcut was judged against a key press in debug mode
+export type DebugReason =
+  // Accepted
+  | 'fired'
+  | 'pending' // Waiting for the rest of a sequence (or for the sequence timeout)
+  | 'shadowed' // Another matching shortcut handled the key press first
+  | 'passed' // Its callback returned false, or conflictPolicy 'last-wins' dropped it
+  // Rejected
+  | SkipReason
+  | 'key'
+  | 'modifiers'
+  | 'repeat' // Auto-repeat press, and the shortcut doesn't repeat
+  | 'keyup' // Fires on keyup instead
+  | 'sequence'; // Another sequence is pending
+
+export interface DebugCandidate {
+  shortcut: RegisteredShortcut;
+  accepted: boolean;
+  reason: DebugReason;
+}
+
+// A key press as the manager saw it, with the verdict for every registered shortcut
+export interface DebugRecord {
+  // Sequence number, unique within its manager
+  id: number;
+  timestamp: number;
+  key: string;
+  code: string;
+  modifiers: { ctrl: boolean; alt: boolean; shift: boolean; meta: boolean };
+  repeat: boolean;
+  // Canonical key string, or null for a modifier on its own
+  keyString: string | null;
+  // Innermost element the event came from (e.g. 'input#search.field')
+  target: string;
+  // Stroke of a pending sequence this press was matched as (0 for a fresh press)
+  stroke: number;
+  suspended: boolean;
+  candidates: DebugCandidate[];
+}
 
 export interface ManagerEvent {
   type: ManagerEventType;
   componentId: string;
+  // Date.now() when the event was emitted
+  timestamp: number;
   keys?: string[];
+  scope?: string;
+  conflict?: ShortcutConflict;
+  command?: string;
+  // Dispatch events (trigger, miss, skipped, error, running)
+  shortcut?: RegisteredShortcut;
+  keyboardEvent?: KeyboardEvent;
+  defaultPrevented?: boolean;
+  reason?: SkipReason;
+  error?: unknown;
+  debug?: DebugRecord;
+  // Whether the shortcut has a pending call, for 'running' events
+  running?: boolean;
 }
 
 export type ManagerEventListener = (event: ManagerEvent) => void;